@@ -3,7 +3,8 @@ import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
 import jsonBg from "json-bigint";
 import { containerChainGenesisDataToChainSpec } from "../util/genesis_data";
-import { NETWORK_YARGS_OPTIONS, getApiFor } from "./utils/network";
+import { BLOCK_YARGS_OPTIONS, NETWORK_YARGS_OPTIONS, describeBlock, getApiAt, getApiFor } from "./utils/network";
+import { resolveBootNodesAt, resolveRegistrarAt } from "./utils/registrar";
 import { convertExponentials } from "@zombienet/utils";
 import { hexToString } from "@polkadot/util";
 const JSONbig = jsonBg({ useNativeBigInt: true });
@@ -18,6 +19,7 @@ yargs(hideBin(process.argv))
       return yargs
         .options({
             ...NETWORK_YARGS_OPTIONS,
+            ...BLOCK_YARGS_OPTIONS,
             "output": {
                 describe: "Output path of raw chainSpec file",
                 type: "string",
@@ -41,23 +43,30 @@ yargs(hideBin(process.argv))
         const api = await getApiFor(argv);
 
         try {
-            process.stdout.write(`Reading on-chain genesis data for parachain ${argv.paraId} ...`);
-            const encoded = await api.query.registrar.paraGenesisData(argv.paraId) as any;
+            // Genesis data and bootnodes are both read at this block, with its runtime
+            const block = await getApiAt(api, argv);
+            const registrar = resolveRegistrarAt(block.apiAt);
+            process.stdout.write(`Reading state at block ${describeBlock(block)}\n`);
+            process.stdout.write(`Reading on-chain genesis data for parachain ${argv.paraId} from ${registrar} ...`);
+            const encoded = await block.apiAt.query[registrar].paraGenesisData(argv.paraId) as any;
             if (encoded.isNone) {
                 process.stdout.write(`❌ parachain not registered\n`);
                 return;
             }
             process.stdout.write(`Done ✅\n`);
-            const onChainGenesisData = await api.createType(
+            const onChainGenesisData = block.apiAt.registry.createType(
                 "TpContainerChainGenesisDataContainerChainGenesisData",
                 encoded.unwrap(),
             );
             const rawSpec = containerChainGenesisDataToChainSpec(onChainGenesisData, argv.paraId, argv.chainType, argv.relayChain);
             // Add bootnodes (they are stored in a separate storage)
-            const bootNodes = await api.query.registrar.bootNodes(argv.paraId) as any;
-            rawSpec.bootNodes = bootNodes.map(x => {
-                return hexToString(x.toHex());
-            });
+            const bootNodesPallet = resolveBootNodesAt(block.apiAt, registrar);
+            if (bootNodesPallet) {
+                const bootNodes = await block.apiAt.query[bootNodesPallet].bootNodes(argv.paraId) as any;
+                rawSpec.bootNodes = bootNodes.map(x => {
+                    return hexToString(x.toHex());
+                });
+            }
             process.stdout.write(`Writing to: ${argv.output} ...`);
             await fs.writeFile(
               argv.output,
@@ -1,90 +1,243 @@
-import fs from 'fs';
-import yargs from 'yargs';
-import { isAddress } from '@polkadot/util-crypto'; // Recommended for simple boolean check
+import fs from "fs";
+import yargs from "yargs";
+import { hideBin } from "yargs/helpers";
+import { parse } from "csv-parse/sync";
+import { isAddress } from "@polkadot/util-crypto";
+import {
+  REPORT_YARGS_OPTIONS,
+  renderJunit,
+  renderMarkdownTable,
+  reportLogger,
+  writeReport,
+} from "./utils/report";
+import { TokenInfo, parseTokenAmount } from "./utils/amount";
+import { publicKeyOf, ss58PrefixOf } from "./utils/address";
+
+/*
+Checks the addresses of a genesis accounts CSV (e.g. Genesis_Accounts.csv).
+The header is the first line with an "Address" column, so files starting
+with a title line ("Tanssi Genesis Addresses Generated on...") also work:
+
+Address,Balance
+5DHrbXYWqBechiF4DLLcF44wB31G1am3PsAuHMYxyFdGe21m,1000000000000000
+...
+
+Each address must be valid, listed once (by public key, whatever its SS58
+encoding) and, with --ss58, encoded with that prefix. With --check-balances
+the Balance column must hold a positive amount (planck or "<amount> <symbol>").
+*/
+
+const args = yargs(hideBin(process.argv))
+  .options({
+    ...REPORT_YARGS_OPTIONS,
+    "account-file": {
+      describe: "CSV file with the genesis accounts",
+      type: "string",
+      demandOption: true,
+      alias: ["af"],
+      coerce: (arg: string) => {
+        if (!fs.existsSync(arg)) {
+          throw new Error(`Account file not found: ${arg}`);
+        }
+        return arg;
+      },
+    },
+    ss58: {
+      describe: "Expected SS58 prefix of every address",
+      type: "number",
+    },
+    "check-balances": {
+      describe: "Also check the Balance column",
+      type: "boolean",
+      default: false,
+    },
+    decimals: {
+      describe: "Token decimals, for Balance values written with the symbol",
+      type: "number",
+      default: 12,
+    },
+    symbol: {
+      describe: "Token symbol, for Balance values written with the symbol",
+      type: "string",
+      default: "TANSSI",
+    },
+  })
+  .strict().argv as any;
+
+// Exit codes: some rows are invalid, or the file could not be read
+const EXIT_INVALID = 1;
+const EXIT_ERROR = 2;
+
+const log = reportLogger(args);
+
+type AccountRow = {
+  line: number;
+  address: string;
+  publicKey?: string;
+  ss58?: number;
+  balance?: string;
+  errors: string[];
+};
+
+// Index of the header line and of its Address and Balance columns
+function findHeader(lines: string[][]): { index: number; address: number; balance: number } {
+  const cell = (value: string) => value.trim().toLowerCase();
+  const index = lines.findIndex((line) => line.some((value) => cell(value) === "address"));
+  if (index < 0) {
+    throw new Error(`No header line with an "Address" column`);
+  }
+  return {
+    index,
+    address: lines[index].findIndex((value) => cell(value) === "address"),
+    balance: lines[index].findIndex((value) => cell(value) === "balance"),
+  };
+}
 
+function verifyAccounts(filePath: string, token: TokenInfo): AccountRow[] {
+  // `info` keeps the line number of each record, empty lines are skipped
+  const records: { record: string[]; info: { lines: number } }[] = parse(fs.readFileSync(filePath, "utf-8"), {
+    relax_column_count: true,
+    skip_empty_lines: true,
+    trim: true,
+    info: true,
+  });
+  const lines = records.map(({ record }) => record);
+  const header = findHeader(lines);
+  log(`Header found at line ${records[header.index].info.lines}: ${lines[header.index].join(",")}`);
+  if (args["check-balances"] && header.balance < 0) {
+    throw new Error(`--check-balances needs a "Balance" column`);
+  }
 
+  // First line of each public key
+  const seen = new Map<string, AccountRow>();
+  const rows: AccountRow[] = [];
+  records.slice(header.index + 1).forEach(({ record: values, info }) => {
+    const row: AccountRow = { line: info.lines, address: values[header.address] ?? "", errors: [] };
+    rows.push(row);
+
+    if (!row.address) {
+      row.errors.push("Empty address field");
+    } else if (!isAddress(row.address)) {
+      row.errors.push("Invalid address");
+    } else {
+      row.publicKey = publicKeyOf(row.address);
+      row.ss58 = ss58PrefixOf(row.address);
+      if (args["ss58"] !== undefined && row.ss58 !== args["ss58"]) {
+        row.errors.push(
+          row.ss58 === undefined
+            ? `Not SS58 encoded, expected prefix ${args["ss58"]}`
+            : `SS58 prefix ${row.ss58} instead of ${args["ss58"]}`
+        );
+      }
+      const first = seen.get(row.publicKey);
+      if (first) {
+        row.errors.push(
+          first.address === row.address
+            ? `Duplicate of line ${first.line}`
+            : `Same public key as line ${first.line} (${first.address})`
+        );
+      } else {
+        seen.set(row.publicKey, row);
+      }
+    }
 
-const args = yargs.options({
-  'account-file': {
-    describe: 'Location of CSV file with proxy configuration',
-    type: 'string',
-    demandOption: true,
-    alias: ['af'],
-    coerce: (arg) => {
-      if (!fs.existsSync(arg)) {
-        throw new Error(`Account file not found: ${arg}`);
+    if (args["check-balances"]) {
+      row.balance = values[header.balance] ?? "";
+      try {
+        if (parseTokenAmount(row.balance, token) === 0n) {
+          row.errors.push("Balance is zero");
+        }
+      } catch (e) {
+        row.errors.push(`Invalid Balance: ${e.message}`);
       }
-      return arg;
-    },
-  },
-}).argv;
+    }
+  });
+  return rows;
+}
+
+function renderText(rows: AccountRow[]): string {
+  const lines = ["--- Address Validation Results ---"];
+  for (const row of rows) {
+    if (row.errors.length === 0) {
+      lines.push(`Line ${row.line}: Address '${row.address}' is VALID.`);
+    } else {
+      lines.push(`Line ${row.line}: Address '${row.address}' is INVALID. ${row.errors.join(". ")}`);
+    }
+  }
+  const invalid = rows.filter((row) => row.errors.length > 0).length;
+  lines.push(
+    ``,
+    `--- Summary ---`,
+    `Total addresses processed: ${rows.length}`,
+    `Valid addresses: ${rows.length - invalid}`,
+    `Invalid addresses: ${invalid}`
+  );
+  return `${lines.join("\n")}\n`;
+}
 
+function renderMarkdown(rows: AccountRow[]): string {
+  const invalid = rows.filter((row) => row.errors.length > 0);
+  return [
+    `## Genesis account verification ${invalid.length ? "❌" : "✅"}`,
+    ``,
+    `${rows.length} addresses, ${invalid.length} invalid`,
+    ``,
+    renderMarkdownTable(
+      ["Line", "Address", "Errors"],
+      invalid.map((row) => [row.line, row.address, row.errors.join(". ")])
+    ),
+    ``,
+  ].join("\n");
+}
 
 async function main() {
-  console.log(`Attempting to read addresses from: ${args['account-file']}`);
+  const token: TokenInfo = { decimals: args["decimals"], symbol: args["symbol"] };
+  log(`Attempting to read addresses from: ${args["account-file"]}`);
 
-  let fileContent;
+  let rows: AccountRow[];
   try {
-    fileContent = fs.readFileSync(args['account-file'], 'utf-8');
+    rows = verifyAccounts(args["account-file"], token);
   } catch (error) {
     console.error(`Error reading CSV file: ${error.message}`);
-    process.exit(1); // Exit if the file can't be read
+    process.exitCode = EXIT_ERROR;
+    return;
   }
-
-  const lines = fileContent.split('\n');
-  const validationResults = [];
-
-  // Start processing lines after the first two header lines
-  // Line 0: "Tanssi Genesis Addresses Generated on..."
-  // Line 1: "Key#,Address"
-  for (let i = 2; i < lines.length; i++) {
-    const line = lines[i].trim(); // Remove leading/trailing whitespace
-
-    if (line === '') {
-      // Skip empty lines
-      continue;
-    }
-
-    const parts = line.split(',');
-    if (parts.length < 2) {
-      console.warn(`Skipping malformed line ${i + 1}: Not enough columns. Content: "${line}"`);
-      validationResults.push({ lineNumber: i + 1, originalLine: line, address: 'N/A', isValid: false, error: 'Malformed line' });
-      continue;
-    }
-
-    // The address is expected to be the second part (index 1)
-    const keyNum = parts[0].trim();
-    const address = parts[1].trim();
-
-    if (!address) {
-        console.warn(`Skipping line ${i + 1} (Key# ${keyNum}): Address field is empty.`);
-        validationResults.push({ lineNumber: i + 1, originalLine: line, address: '', isValid: false, error: 'Empty address field' });
-        continue;
-    }
-
-    const isValid = isAddress(address);
-    validationResults.push({ lineNumber: i + 1, keyNum, address, isValid });
+  const invalid = rows.filter((row) => row.errors.length > 0).length;
+
+  switch (args["format"]) {
+    case "json":
+      writeReport(
+        args,
+        `${JSON.stringify({ summary: { total: rows.length, invalid, passed: invalid === 0 }, rows }, null, 2)}\n`
+      );
+      break;
+    case "junit":
+      writeReport(
+        args,
+        renderJunit("genesis-account-verification", [
+          {
+            name: args["account-file"],
+            cases: rows.map((row) => ({
+              name: `line ${row.line}: ${row.address}`,
+              ...(row.errors.length ? { failure: row.errors.join(". ") } : {}),
+            })),
+          },
+        ])
+      );
+      break;
+    case "markdown":
+      writeReport(args, renderMarkdown(rows));
+      break;
+    default:
+      writeReport(args, renderText(rows));
   }
 
-  // Output the results
-  console.log('\n--- Address Validation Results ---');
-  validationResults.forEach(result => {
-    if (result.isValid) {
-      console.log(`Line ${result.lineNumber} (Key# ${result.keyNum}): Address '${result.address}' is VALID.`);
-    } else {
-      const errorMsg = result.error ? `Error: ${result.error}` : '';
-      console.error(`Line ${result.lineNumber} (Key# ${result.keyNum}): Address '${result.address}' is INVALID. ${errorMsg}`);
-    }
-  });
-
-  const validCount = validationResults.filter(r => r.isValid).length;
-  const invalidCount = validationResults.length - validCount;
-  console.log(`\n--- Summary ---`);
-  console.log(`Total addresses processed: ${validationResults.length}`);
-  console.log(`Valid addresses: ${validCount}`);
-  console.log(`Invalid addresses: ${invalidCount}`);
+  if (invalid) {
+    process.exitCode = EXIT_INVALID;
+  }
 }
 
-main().catch(error => {
-  console.error('An unexpected error occurred:', error);
-});
\ No newline at end of file
+main().catch((error) => {
+  console.error("An unexpected error occurred:", error);
+  process.exitCode = EXIT_ERROR;
+});
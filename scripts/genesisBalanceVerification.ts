@@ -1,8 +1,23 @@
 import yargs from "yargs";
-import { NETWORK_YARGS_OPTIONS, getApiFor } from "./utils/network";
+import {
+  BLOCK_YARGS_OPTIONS,
+  NETWORK_YARGS_OPTIONS,
+  describeBlock,
+  getApiAt,
+  getApiFor,
+} from "./utils/network";
+import {
+  TokenInfo,
+  describeAmount,
+  getTokenInfo,
+  parseTokenAmount,
+} from "./utils/amount";
+import { OPTIONAL_BALANCE_HEADERS } from "./utils/balances";
 import fs from "fs";
 import { parse } from "csv-parse/sync";
 import { decodeAddress } from "@polkadot/util-crypto";
+import { u8aToString } from "@polkadot/util";
+import Bottleneck from "bottleneck";
 import "@tanssi/api-augment";
 import type { ApiPromise } from "@polkadot/api";
 
@@ -12,24 +27,317 @@ Address,Balance
 Account1Address,1000000000000
 Account2Address,25000000000000
 ...
+Optional columns may follow, in any order:
+Address,Balance,Reserved,Frozen,Vesting,Locks
+Account1Address,1000000000000,0,500000000000,500000000000,vesting:500000000000
+- Reserved: data.reserved of system.account
+- Frozen: data.frozen of system.account
+- Vesting: sum of the locked amounts of the vesting schedules
+- Locks: balances.locks as "id:amount" pairs separated by ";" (ids are trimmed)
+An empty cell skips that check for the row.
 Notes:
-- Balances should be integers representing the smallest unit of the currency (e.g., Planck for Polkadot).
-- Do not include commas or unit symbols (e.g., KSM, DOT) in the Balance column.
+- Amounts are either integers in the smallest unit of the currency (e.g., Planck for Polkadot),
+  or decimal amounts followed by the token symbol of the chain (e.g., "5,000,000 TANSSI").
+- A decimal amount with more decimals than the token is rejected, never rounded.
 */
 
 const args = yargs.options({
   ...NETWORK_YARGS_OPTIONS,
+  ...BLOCK_YARGS_OPTIONS,
   "file-path": {
     describe: "Path to the CSV file with balances",
     type: "string",
     demandOption: true,
     alias: ["fp", "file"],
   },
+  "page-size": {
+    describe: "Accounts per page when scanning all on-chain accounts",
+    type: "number",
+    default: 1000,
+  },
+  "query-batch": {
+    describe: "CSV accounts looked up per queryMulti request",
+    type: "number",
+    default: 100,
+  },
+  concurrency: {
+    describe: "Maximum number of lookup requests in flight",
+    type: "number",
+    default: 4,
+  },
 }).argv;
 
-async function verifyBalances(api, filePath: string) {
+type ScanOptions = {
+  pageSize: number;
+  queryBatch: number;
+  concurrency: number;
+};
+
+// Values of the optional columns of a row, undefined when not checked
+type ExtendedRow = {
+  reserved?: bigint;
+  frozen?: bigint;
+  vesting?: bigint;
+  locks?: Map<string, bigint>;
+};
+
+function parseAmount(column: string, value: string, token: TokenInfo): bigint {
+  try {
+    return parseTokenAmount(value, token);
+  } catch (e: any) {
+    throw new Error(`${column} ${e.message}`);
+  }
+}
+
+function parseLocks(value: string, token: TokenInfo): Map<string, bigint> {
+  const locks = new Map<string, bigint>();
+  for (const entry of value.split(";").filter((e) => e.trim() !== "")) {
+    const separator = entry.lastIndexOf(":");
+    const id = entry.slice(0, separator).trim();
+    if (separator < 0 || !id) {
+      throw new Error(`Locks entry "${entry}" is not "id:amount"`);
+    }
+    if (locks.has(id)) {
+      throw new Error(`Locks entry "${id}" is listed twice`);
+    }
+    locks.set(id, parseAmount("Locks", entry.slice(separator + 1).trim(), token));
+  }
+  return locks;
+}
+
+function parseExtendedRow(row: Record<string, string>, token: TokenInfo): ExtendedRow {
+  const cell = (column: string) => {
+    const value = row[column]?.trim();
+    return value === undefined || value === "" ? undefined : value;
+  };
+  const amount = (column: string) => {
+    const value = cell(column);
+    return value === undefined ? undefined : parseAmount(column, value, token);
+  };
+  const locks = cell("Locks");
+  return {
+    reserved: amount("Reserved"),
+    frozen: amount("Frozen"),
+    vesting: amount("Vesting"),
+    locks: locks === undefined ? undefined : parseLocks(locks, token),
+  };
+}
+
+// balances.locks by trimmed lock id
+function decodeLocks(locks: any): Map<string, bigint> {
+  const result = new Map<string, bigint>();
+  for (const lock of locks) {
+    const id = u8aToString(lock.id.toU8a()).replace(/\0/g, "").trim();
+    result.set(id, BigInt(lock.amount.toString()));
+  }
+  return result;
+}
+
+// Largest balances.freezes amount (0 without freezes)
+function maxFreeze(freezes: any): bigint {
+  let max = BigInt(0);
+  for (const freeze of freezes ?? []) {
+    const amount = BigInt(freeze.amount.toString());
+    if (amount > max) max = amount;
+  }
+  return max;
+}
+
+// Sum of the locked amounts of the vesting schedules
+function vestingLocked(schedules: any): bigint {
+  let locked = BigInt(0);
+  if (schedules.isSome) {
+    for (const schedule of schedules.unwrap()) {
+      locked += BigInt(schedule.locked.toString());
+    }
+  }
+  return locked;
+}
+
+// On-chain data of one CSV row, only what its columns need
+type AccountState = {
+  account?: any;
+  locks?: any;
+  freezes?: any;
+  vesting?: any;
+  error?: string;
+};
+
+// Looks up the CSV accounts with queryMulti, `queryBatch` rows per request
+// and at most `concurrency` requests in flight
+async function fetchAccountStates(
+  api,
+  rows: { address: string; extended: ExtendedRow }[],
+  options: ScanOptions
+): Promise<AccountState[]> {
+  const limiter = new Bottleneck({ maxConcurrent: options.concurrency });
+  const states: AccountState[] = new Array(rows.length);
+  const hasFreezes = !!api.query.balances.freezes;
+  const hasVesting = !!api.query.vesting?.vesting;
+  let fetched = 0;
+
+  // Queries of each row, in queryMulti order
+  const rowQueries = rows.map(({ address, extended }) => {
+    const needsLocks = extended.frozen !== undefined || extended.locks !== undefined;
+    const queries: [string, any][] = [["account", api.query.system.account]];
+    if (needsLocks) queries.push(["locks", api.query.balances.locks]);
+    if (needsLocks && hasFreezes) queries.push(["freezes", api.query.balances.freezes]);
+    if (extended.vesting !== undefined && hasVesting) queries.push(["vesting", api.query.vesting.vesting]);
+    return queries.map(([name, query]) => ({ name, query: [query, address] as [any, string] }));
+  });
+
+  // Looks up rows [start, end) with one queryMulti
+  const query = async (start: number, end: number) => {
+    const indexes = Array.from({ length: end - start }, (_, i) => start + i);
+    const results = await limiter.schedule(() =>
+      api.queryMulti(indexes.flatMap((index) => rowQueries[index].map(({ query }) => query)))
+    );
+    let slot = 0;
+    for (const index of indexes) {
+      const state: AccountState = {};
+      for (const { name } of rowQueries[index]) {
+        state[name] = results[slot++];
+      }
+      if (rows[index].extended.vesting !== undefined && !hasVesting) {
+        state.error = "Runtime has no vesting pallet";
+      }
+      states[index] = state;
+    }
+  };
+
+  const fetchChunk = async (start: number) => {
+    const end = Math.min(start + options.queryBatch, rows.length);
+    try {
+      await query(start, end);
+    } catch (error: any) {
+      // One bad row (or a dropped request) fails the whole chunk: retry its
+      // rows one at a time so only the failing ones are reported
+      console.log(`   ⚠️ Lookup of CSV accounts ${start + 1}-${end} failed (${error.message}), retrying them one by one`);
+      for (let index = start; index < end; index++) {
+        try {
+          await query(index, index + 1);
+        } catch (error: any) {
+          states[index] = { error: error.message };
+        }
+      }
+    }
+    fetched += end - start;
+    console.log(`   ⏳ Looked up ${fetched}/${rows.length} CSV accounts`);
+  };
+
+  const starts: number[] = [];
+  for (let start = 0; start < rows.length; start += options.queryBatch) {
+    starts.push(start);
+  }
+  await Promise.all(starts.map(fetchChunk));
+  return states;
+}
+
+function formatLocks(locks: Map<string, bigint>, token: TokenInfo): string {
+  return (
+    Array.from(locks.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([id, amount]) => `${id}:${describeAmount(amount, token)}`)
+      .join(";") || "none"
+  );
+}
+
+function compareAmount(
+  column: string,
+  address: string,
+  csv: bigint,
+  onChain: bigint,
+  token: TokenInfo
+): boolean {
+  if (csv === onChain) {
+    console.log(
+      `  ✅ ${column} MATCH for ${address}: CSV: ${describeAmount(csv, token)}, On-chain: ${describeAmount(onChain, token)}`
+    );
+    return true;
+  }
+  console.error(
+    `  ❌ ${column} MISMATCH for ${address}: CSV: ${describeAmount(csv, token)}, On-chain: ${describeAmount(onChain, token)}`
+  );
+  return false;
+}
+
+// Checks the optional columns of a row against system.account,
+// balances.locks/freezes and the vesting pallet. Returns false on mismatch.
+function verifyExtendedRow(
+  address: string,
+  state: AccountState,
+  expected: ExtendedRow,
+  token: TokenInfo
+): boolean {
+  const accountData = state.account.data;
+  let ok = true;
+  const frozen = BigInt(accountData.frozen.toString());
+  if (expected.reserved !== undefined) {
+    ok =
+      compareAmount("Reserved", address, expected.reserved, BigInt(accountData.reserved.toString()), token) &&
+      ok;
+  }
+  if (expected.frozen !== undefined) {
+    ok = compareAmount("Frozen", address, expected.frozen, frozen, token) && ok;
+  }
+  if (expected.frozen !== undefined || expected.locks !== undefined) {
+    // The balances pallet keeps `frozen` at the largest lock or freeze
+    const locks = decodeLocks(state.locks);
+    let largest = maxFreeze(state.freezes);
+    for (const amount of locks.values()) {
+      if (amount > largest) largest = amount;
+    }
+    if (frozen !== largest) {
+      console.error(
+        `  ❌ Frozen ${describeAmount(frozen, token)} of ${address} is not the largest lock or freeze (${describeAmount(largest, token)})`
+      );
+      ok = false;
+    }
+    if (expected.locks !== undefined) {
+      const csvLocks = formatLocks(expected.locks, token);
+      const onChainLocks = formatLocks(locks, token);
+      if (csvLocks === onChainLocks) {
+        console.log(`  ✅ Locks MATCH for ${address}: ${onChainLocks}`);
+      } else {
+        console.error(
+          `  ❌ Locks MISMATCH for ${address}: CSV: ${csvLocks}, On-chain: ${onChainLocks}`
+        );
+        ok = false;
+      }
+    }
+  }
+  if (expected.vesting !== undefined) {
+    ok = compareAmount("Vesting", address, expected.vesting, vestingLocked(state.vesting), token) && ok;
+  }
+  return ok;
+}
+
+// Same checks as the row loop, without output, to know what to prefetch
+function prefetchRequest(
+  row: Record<string, string>,
+  token: TokenInfo
+): { address: string; extended: ExtendedRow } | undefined {
+  const address = row["Address"]?.trim();
+  if (!address || !row["Balance"]?.trim()) {
+    return undefined;
+  }
+  try {
+    decodeAddress(address);
+    return { address, extended: parseExtendedRow(row, token) };
+  } catch {
+    return undefined;
+  }
+}
+
+async function verifyBalances(
+  api,
+  filePath: string,
+  options: ScanOptions,
+  token: TokenInfo
+) {
   const EXPECTED_HEADERS = ["Address", "Balance"];
   let totalCsvBalance = BigInt(0);
+  let totalCsvReserved = BigInt(0);
   let MismatchesFound = false;
   const csvAddresses = new Set<string>(); // To store addresses from CSV for quick lookup
 
@@ -64,7 +372,7 @@ async function verifyBalances(api, filePath: string) {
     );
   } else {
     const headers = Object.keys(records[0]);
-    let headersMatch = EXPECTED_HEADERS.length === headers.length;
+    let headersMatch = EXPECTED_HEADERS.length <= headers.length;
     if (headersMatch) {
       for (let i = 0; i < EXPECTED_HEADERS.length; i++) {
         if (headers[i].trim() !== EXPECTED_HEADERS[i]) {
@@ -73,18 +381,37 @@ async function verifyBalances(api, filePath: string) {
         }
       }
     }
+    // Optional columns after Address,Balance (duplicates are merged by the parser)
+    const extraHeaders = headers.slice(EXPECTED_HEADERS.length).map((h) => h.trim());
+    if (extraHeaders.some((h) => !OPTIONAL_BALANCE_HEADERS.includes(h))) {
+      headersMatch = false;
+    }
 
     if (!headersMatch) {
       console.error(
         `  ❌ CSV header mismatch in ${filePath}. Expected "${EXPECTED_HEADERS.join(
           ","
-        )}", got "${headers.join(",")}"`
+        )}" optionally followed by ${OPTIONAL_BALANCE_HEADERS.join(", ")}, got "${headers.join(",")}"`
       );
       MismatchesFound = true;
     } else {
       console.log(
         `   Found ${records.length} data record(s) in ${filePath}. Verifying...`
       );
+      if (extraHeaders.length) {
+        console.log(`   Also verifying: ${extraHeaders.join(", ")}`);
+      }
+
+      // Look up every valid row up front, the loop below reports in CSV order
+      const requests = records.map((row) => prefetchRequest(row, token));
+      const valid = requests.filter((request) => request !== undefined);
+      const fetchedStates = await fetchAccountStates(api, valid, options);
+      const states = new Map<number, AccountState>();
+      let next = 0;
+      requests.forEach((request, index) => {
+        if (request) states.set(index, fetchedStates[next++]);
+      });
+
       for (const [index, row] of records.entries()) {
         const lineNumber = index + 2;
         const address = row["Address"];
@@ -138,14 +465,7 @@ async function verifyBalances(api, filePath: string) {
 
         let csvBalance: bigint;
         try {
-          const cleanBalanceStr = trimmedCsvBalanceStr.replace(/,/g, "");
-          if (isNaN(Number(cleanBalanceStr))) {
-            throw new Error("Balance is not a valid number.");
-          }
-          csvBalance = BigInt(cleanBalanceStr);
-          if (csvBalance < BigInt(0)) {
-            throw new Error("Balance cannot be negative.");
-          }
+          csvBalance = parseTokenAmount(trimmedCsvBalanceStr, token);
         } catch (e: any) {
           console.error(
             `  ❌ Invalid Balance format in CSV for address "${trimmedAddress}" at row ${lineNumber}: "${trimmedCsvBalanceStr}". ${e.message}`
@@ -154,24 +474,41 @@ async function verifyBalances(api, filePath: string) {
           continue;
         }
 
+        let extended: ExtendedRow;
+        try {
+          extended = parseExtendedRow(row, token);
+        } catch (e: any) {
+          console.error(
+            `  ❌ Invalid value in CSV for address "${trimmedAddress}" at row ${lineNumber}: ${e.message}`
+          );
+          MismatchesFound = true;
+          continue;
+        }
+
         totalCsvBalance += csvBalance;
+        totalCsvReserved += extended.reserved ?? BigInt(0);
 
         try {
-          const accountInfo = (await api.query.system.account(
-            trimmedAddress
-          )) as any;
+          const state = states.get(index);
+          if (!state || state.error) {
+            throw new Error(state?.error ?? "not looked up");
+          }
+          const accountInfo = state.account;
           const onChainFreeBalance = BigInt(accountInfo.data.free.toString());
 
           if (csvBalance === onChainFreeBalance) {
             console.log(
-              `  ✅ Balance MATCH for ${trimmedAddress}: CSV: ${csvBalance.toString()}, On-chain: ${onChainFreeBalance.toString()}`
+              `  ✅ Balance MATCH for ${trimmedAddress}: CSV: ${describeAmount(csvBalance, token)}, On-chain: ${describeAmount(onChainFreeBalance, token)}`
             );
           } else {
             console.error(
-              `  ❌ Balance MISMATCH for ${trimmedAddress}: CSV: ${csvBalance.toString()}, On-chain: ${onChainFreeBalance.toString()}`
+              `  ❌ Balance MISMATCH for ${trimmedAddress}: CSV: ${describeAmount(csvBalance, token)}, On-chain: ${describeAmount(onChainFreeBalance, token)}`
             );
             MismatchesFound = true;
           }
+          if (!verifyExtendedRow(trimmedAddress, state, extended, token)) {
+            MismatchesFound = true;
+          }
         } catch (error: any) {
           console.error(
             `  ❌ Error querying balance for address ${trimmedAddress} at row ${lineNumber}: ${error.message}`
@@ -188,69 +525,83 @@ async function verifyBalances(api, filePath: string) {
 
   // --- New Section: Full On-Chain Account Scan ---
   console.log(
-    "\n--- Scanning All On-Chain Accounts (via system.account.entries) ---"
+    "\n--- Scanning All On-Chain Accounts (via system.account.entriesPaged) ---"
   );
   let totalOnChainFreeBalanceSum = BigInt(0);
+  let totalOnChainReservedSum = BigInt(0);
   const accountsOnChainNotInCsvWithBalance: {
     address: string;
     balance: bigint;
+    reserved: bigint;
   }[] = [];
   let onChainAccountsProcessed = 0;
 
   try {
-    const rawAccountEntires = await api.query.system.account.entries();
-
-    let rawAccounts = [];
-
-    rawAccountEntires.forEach(([key, exposure]) => {
-      rawAccounts.push({
-        account: key.args.map((k) => k.toHuman()),
-        balance: exposure.toHuman(),
+    let startKey: string | undefined;
+    for (;;) {
+      const page = await api.query.system.account.entriesPaged({
+        args: [],
+        pageSize: options.pageSize,
+        startKey,
       });
-    });
 
-    for (const account of rawAccounts) {
-      // The first argument to the key is the AccountId
-      const onChainAddress = account.account[0];
-      const onChainFreeBalance = BigInt(
-        account.balance.data.free.toString().replaceAll(",", "")
-      );
-
-      totalOnChainFreeBalanceSum += onChainFreeBalance;
+      for (const [key, accountInfo] of page) {
+        // The first argument to the key is the AccountId
+        const onChainAddress = key.args[0].toString();
+        const onChainFreeBalance = BigInt(accountInfo.data.free.toString());
+        const onChainReserved = BigInt(accountInfo.data.reserved.toString());
+
+        totalOnChainFreeBalanceSum += onChainFreeBalance;
+        totalOnChainReservedSum += onChainReserved;
+
+        if (
+          onChainFreeBalance + onChainReserved > BigInt(0) &&
+          !csvAddresses.has(onChainAddress)
+        ) {
+          accountsOnChainNotInCsvWithBalance.push({
+            address: onChainAddress,
+            balance: onChainFreeBalance,
+            reserved: onChainReserved,
+          });
+        }
+      }
+      onChainAccountsProcessed += page.length;
+      console.log(`   ⏳ Scanned ${onChainAccountsProcessed} on-chain accounts`);
 
-      if (onChainFreeBalance > BigInt(0) && !csvAddresses.has(onChainAddress)) {
-        accountsOnChainNotInCsvWithBalance.push({
-          address: onChainAddress,
-          balance: onChainFreeBalance,
-        });
+      if (page.length < options.pageSize) {
+        break;
       }
+      startKey = page[page.length - 1][0].toHex();
     }
 
     console.log(
-      `  🔎 Processed ${rawAccounts.length} on-chain account entries.`
+      `  🔎 Processed ${onChainAccountsProcessed} on-chain account entries.`
+    );
+    console.log(
+      `  💰 Sum of all on-chain 'free' balances from scan: ${describeAmount(totalOnChainFreeBalanceSum, token)}`
     );
     console.log(
-      `  💰 Sum of all on-chain 'free' balances from scan: ${totalOnChainFreeBalanceSum.toString()}`
+      `  💰 Sum of all on-chain 'reserved' balances from scan: ${describeAmount(totalOnChainReservedSum, token)}`
     );
 
     if (accountsOnChainNotInCsvWithBalance.length > 0) {
       MismatchesFound = true;
       console.error(
-        `  ❌ Found ${accountsOnChainNotInCsvWithBalance.length} account(s) with a 'free' balance on-chain but NOT listed in the CSV:`
+        `  ❌ Found ${accountsOnChainNotInCsvWithBalance.length} account(s) with a 'free' or 'reserved' balance on-chain but NOT listed in the CSV:`
       );
       for (const acc of accountsOnChainNotInCsvWithBalance) {
         console.error(
-          `     - Address: ${acc.address}, Balance: ${acc.balance.toString()}`
+          `     - Address: ${acc.address}, Balance: ${describeAmount(acc.balance, token)}, Reserved: ${describeAmount(acc.reserved, token)}`
         );
       }
     } else {
       console.log(
-        "  ✅ All on-chain accounts with a 'free' balance appear to be covered by the CSV (or have zero 'free' balance)."
+        "  ✅ All on-chain accounts with a 'free' or 'reserved' balance appear to be covered by the CSV."
       );
     }
   } catch (error: any) {
     console.error(
-      `  ❌ Error during on-chain account scan (system.account.entries): ${error.message}`
+      `  ❌ Error during on-chain account scan (system.account.entriesPaged): ${error.message}`
     );
     MismatchesFound = true;
   }
@@ -261,54 +612,59 @@ async function verifyBalances(api, filePath: string) {
     const totalIssuanceRaw = await api.query.balances.totalIssuance();
     const onChainTotalIssuance = BigInt(totalIssuanceRaw.toString());
 
+    // Total issuance counts free and reserved funds (frozen funds are part of free)
+    const totalCsv = totalCsvBalance + totalCsvReserved;
+    const totalOnChain = totalOnChainFreeBalanceSum + totalOnChainReservedSum;
+
     console.log(
-      `  💰 Total 'free' balance summed from CSV:             ${totalCsvBalance.toString()}`
+      `  💰 Total 'free' + 'reserved' summed from CSV:             ${describeAmount(totalCsv, token)}`
     );
     console.log(
-      `  💰 Sum of all on-chain 'free' balances from scan:  ${totalOnChainFreeBalanceSum.toString()}`
+      `  💰 Sum of all on-chain 'free' + 'reserved' from scan:     ${describeAmount(totalOnChain, token)}`
     );
     console.log(
-      `  ⛓️ On-chain total issuance:                          ${onChainTotalIssuance.toString()}`
+      `  ⛓️ On-chain total issuance:                               ${describeAmount(onChainTotalIssuance, token)}`
     );
 
     // Comparison 1: CSV sum vs Total Issuance
-    if (totalCsvBalance === onChainTotalIssuance) {
+    if (totalCsv === onChainTotalIssuance) {
       console.log(
-        "  ✅ Sum of 'free' balances from CSV MATCHES on-chain total issuance."
+        "  ✅ Sum of 'free' + 'reserved' balances from CSV MATCHES on-chain total issuance."
       );
     } else {
       console.error(
-        "  ❌ Sum of 'free' balances from CSV DOES NOT MATCH on-chain total issuance."
+        "  ❌ Sum of 'free' + 'reserved' balances from CSV DOES NOT MATCH on-chain total issuance."
       );
       console.error(
-        `     Difference (CSV Total - Total Issuance): ${(
-          totalCsvBalance - onChainTotalIssuance
-        ).toString()}`
+        `     Difference (CSV Total - Total Issuance): ${describeAmount(
+          totalCsv - onChainTotalIssuance,
+          token
+        )}`
       );
+      if (totalCsvReserved === BigInt(0) && totalOnChainReservedSum > BigInt(0)) {
+        console.error(
+          `     (The chain has reserved balances: add a Reserved column to the CSV)`
+        );
+      }
       MismatchesFound = true;
     }
 
-    // Comparison 2: Sum of all on-chain 'free' balances vs Total Issuance
-    // Note: This sum might not equal totalIssuance if there are reserved/locked balances,
-    // as totalIssuance includes all forms of balance, not just 'free'.
-    if (totalOnChainFreeBalanceSum === onChainTotalIssuance) {
+    // Comparison 2: Sum of all on-chain accounts vs Total Issuance
+    if (totalOnChain === onChainTotalIssuance) {
       console.log(
-        "  ✅ Sum of all on-chain 'free' balances (from scan) MATCHES total issuance."
+        "  ✅ Sum of all on-chain 'free' + 'reserved' balances (from scan) MATCHES total issuance."
       );
     } else {
-      // This might not be an "error" per se, but a point of information if reserved balances exist.
-      console.warn(
-        "  ⚠️ Sum of all on-chain 'free' balances (from scan) DOES NOT MATCH total issuance."
-      );
-      const diff = totalOnChainFreeBalanceSum - onChainTotalIssuance;
-      console.warn(
-        `     Difference (On-chain Free Sum - Total Issuance): ${diff.toString()}`
+      console.error(
+        "  ❌ Sum of all on-chain 'free' + 'reserved' balances (from scan) DOES NOT MATCH total issuance."
       );
-      console.warn(
-        `     (This can be expected if accounts have reserved balances not included in the 'free' sum)`
+      console.error(
+        `     Difference (On-chain Sum - Total Issuance): ${describeAmount(
+          totalOnChain - onChainTotalIssuance,
+          token
+        )}`
       );
-      // You might decide if this specific difference should set MismatchesFound = true based on chain specifics.
-      // For now, it's a warning. If strict equality is expected, change to console.error and set MismatchesFound.
+      MismatchesFound = true;
     }
   } catch (error: any) {
     console.error(`  ❌ Error querying total issuance: ${error.message}`);
@@ -336,22 +692,40 @@ async function main() {
     process.exit(1);
   }
 
+  for (const option of ["page-size", "query-batch", "concurrency"]) {
+    if (!Number.isInteger(args[option]) || args[option] < 1) {
+      console.error(`Error: --${option} must be a positive integer.`);
+      process.exit(1);
+    }
+  }
+
   let api: ApiPromise | undefined;
   try {
     api = await getApiFor(args);
     await api.isReady;
 
-    const apiAt = await api.at(
-      "0xdd6d086f75ec041b66e20c4186d327b23c8af244c534a2418de6574e8c041a60"
-    );
+    // Every read below is done against this block
+    const block = await getApiAt(api, args);
     console.log(
       `🚀 Connected to network: ${(
         await api.rpc.system.chain()
-      ).toHuman()} via ${api.runtimeVersion.specName}/${
-        api.runtimeVersion.specVersion
+      ).toHuman()} via ${block.apiAt.runtimeVersion.specName}/${
+        block.apiAt.runtimeVersion.specVersion
       }`
     );
-    await verifyBalances(apiAt, filePath);
+    console.log(`📦 Verifying state at block ${describeBlock(block)}`);
+    const token = await getTokenInfo(api);
+    console.log(`🪙 Token: ${token.symbol}, ${token.decimals} decimals`);
+    await verifyBalances(
+      block.apiAt,
+      filePath,
+      {
+        pageSize: args["page-size"],
+        queryBatch: args["query-batch"],
+        concurrency: args["concurrency"],
+      },
+      token
+    );
   } catch (error: any) {
     console.error(
       `An unexpected error occurred in main: ${error.message}`,
@@ -0,0 +1,362 @@
+import fs from "fs";
+import path from "path";
+import yargs from "yargs";
+import { hideBin } from "yargs/helpers";
+import { NETWORK_YARGS_OPTIONS, getApiFor } from "./utils/network";
+import {
+  REPORT_YARGS_OPTIONS,
+  renderJunit,
+  renderMarkdownTable,
+  reportLogger,
+  writeReport,
+} from "./utils/report";
+import { TokenInfo, describeAmount, getTokenInfo } from "./utils/amount";
+import { publicKeyOf, ss58PrefixOf } from "./utils/address";
+import { BalanceRow, readBalanceCsv } from "./utils/balances";
+import {
+  GENESIS_ACCOUNTS_FILE,
+  OLD_SNAPSHOT,
+  ProxyDefinition,
+  getProxyTypes,
+  proxyKey,
+  readProxyCsv,
+} from "./utils/proxy";
+
+/*
+Checks a whole genesis bundle directory (genesis_files/, moonlight_files/):
+the balances file (Genesis_Accounts.csv), the proxy CSV files and their
+*_old snapshots, against each other. Prints a single pass/fail report.
+
+Without --url / --network it runs offline: proxy types are not checked
+against the runtime, and amounts use --decimals / --symbol.
+*/
+
+const args = yargs(hideBin(process.argv))
+  .options({
+    ...NETWORK_YARGS_OPTIONS,
+    ...REPORT_YARGS_OPTIONS,
+    "bundle-dir": {
+      describe: "Genesis bundle directory",
+      type: "string",
+      demandOption: true,
+      alias: ["dir"],
+    },
+    "balances-file": {
+      describe: `Balances CSV (defaults to <bundle-dir>/${GENESIS_ACCOUNTS_FILE})`,
+      type: "string",
+    },
+    ss58: {
+      describe: "Expected SS58 prefix of every address (defaults to the chain's, or the most used one offline)",
+      type: "number",
+    },
+    decimals: {
+      describe: "Token decimals when offline",
+      type: "number",
+      default: 12,
+    },
+    symbol: {
+      describe: "Token symbol when offline",
+      type: "string",
+      default: "TANSSI",
+    },
+    strict: {
+      describe: "Also fail on warnings",
+      type: "boolean",
+      default: false,
+    },
+  })
+  .strict().argv as any;
+
+// Exit codes: the bundle has errors, or the lint could not run
+const EXIT_FAILED = 1;
+const EXIT_ERROR = 2;
+
+const log = reportLogger(args);
+
+type Severity = "error" | "warning";
+
+type Finding = {
+  check: string;
+  severity: Severity;
+  message: string;
+  source?: string;
+};
+
+// Checks in report order, with what they look for
+const CHECKS: { [name: string]: string } = {
+  files: "Every CSV file parses",
+  "genesis-accounts": "Every proxy genesis account has a balance",
+  duplicates: "No proxy is listed twice",
+  "any-proxies": "No Any proxy",
+  "genesis-delegates": "No delegate is itself a genesis account",
+  ss58: "Every address uses the expected SS58 prefix",
+  "old-snapshots": "The _old snapshots match their active file",
+};
+
+type LintResult = {
+  bundle: string;
+  files: string[];
+  accounts: number;
+  proxies: number;
+  ss58: number;
+  totalSupply?: bigint;
+  findings: Finding[];
+};
+
+function lintBundle(directory: string, token: TokenInfo, proxyTypes: string[] | undefined, ss58?: number): LintResult {
+  const findings: Finding[] = [];
+  const add = (check: string, severity: Severity, message: string, source?: string) =>
+    findings.push({ check, severity, message, source });
+
+  // --- Load the balances file ---
+  const balancesFile = args["balances-file"] ?? path.join(directory, GENESIS_ACCOUNTS_FILE);
+  let balances: BalanceRow[] | undefined;
+  if (!fs.existsSync(balancesFile)) {
+    add("genesis-accounts", "warning", `No balances file, genesis accounts are not checked`, balancesFile);
+  } else {
+    try {
+      balances = readBalanceCsv(balancesFile, token);
+    } catch (e) {
+      add("files", "error", e.message, balancesFile);
+    }
+  }
+
+  // --- Load the proxy files and their _old snapshots ---
+  const csvFiles = fs
+    .readdirSync(directory)
+    .filter((file) => path.extname(file).toLowerCase() === ".csv" && file !== GENESIS_ACCOUNTS_FILE)
+    .sort();
+  const active = new Map<string, ProxyDefinition[]>();
+  const snapshots = new Map<string, ProxyDefinition[]>();
+  for (const file of csvFiles) {
+    const filePath = path.join(directory, file);
+    if (path.resolve(filePath) === path.resolve(balancesFile)) {
+      continue;
+    }
+    log(`Parsing: ${file}`);
+    try {
+      const proxies = readProxyCsv(filePath, proxyTypes);
+      (OLD_SNAPSHOT.test(path.parse(file).name) ? snapshots : active).set(file, proxies);
+    } catch (e) {
+      add("files", "error", e.message, filePath);
+    }
+  }
+  const proxies = Array.from(active.values()).flat();
+
+  // --- Proxy genesis accounts must have a balance ---
+  const balanceKeys = new Set((balances ?? []).map((row) => publicKeyOf(row.address)));
+  const proxyGenesisKeys = new Set(proxies.map((proxy) => publicKeyOf(proxy.genesis)));
+  if (balances) {
+    const reported = new Set<string>();
+    for (const proxy of proxies) {
+      const key = publicKeyOf(proxy.genesis);
+      if (!balanceKeys.has(key) && !reported.has(key)) {
+        reported.add(key);
+        add("genesis-accounts", "error", `Genesis account ${proxy.genesis} is not in the balances file`, proxy.source);
+      }
+    }
+  }
+
+  // --- Identical proxies listed more than once ---
+  const firstSeen = new Map<string, ProxyDefinition>();
+  for (const proxy of proxies) {
+    const key = proxyKey(proxy);
+    const first = firstSeen.get(key);
+    if (first) {
+      add(
+        "duplicates",
+        "error",
+        `${proxy.genesis} -> ${proxy.delegate} (${proxy.proxyType}, delay ${proxy.delay}) is already listed at ${first.source}`,
+        proxy.source
+      );
+    } else {
+      firstSeen.set(key, proxy);
+    }
+  }
+
+  // --- Risky proxies ---
+  for (const proxy of proxies) {
+    if (proxy.proxyType.toLowerCase() === "any") {
+      add("any-proxies", "warning", `${proxy.delegate} has an Any proxy over ${proxy.genesis}`, proxy.source);
+    }
+    const delegateKey = publicKeyOf(proxy.delegate);
+    if (balanceKeys.has(delegateKey) || proxyGenesisKeys.has(delegateKey)) {
+      add("genesis-delegates", "warning", `Delegate ${proxy.delegate} is itself a genesis account`, proxy.source);
+    }
+  }
+
+  // --- SS58 prefixes ---
+  const addresses: { address: string; source: string }[] = [
+    ...(balances ?? []).map((row) => ({ address: row.address, source: row.source })),
+    ...proxies.flatMap((proxy) => [
+      { address: proxy.genesis, source: proxy.source },
+      { address: proxy.delegate, source: proxy.source },
+    ]),
+  ];
+  const counts = new Map<number, number>();
+  for (const { address } of addresses) {
+    const prefix = ss58PrefixOf(address);
+    if (prefix !== undefined) {
+      counts.set(prefix, (counts.get(prefix) ?? 0) + 1);
+    }
+  }
+  const expected =
+    ss58 ?? Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? 42;
+  for (const { address, source } of addresses) {
+    const prefix = ss58PrefixOf(address);
+    if (prefix !== undefined && prefix !== expected) {
+      add("ss58", "error", `${address} uses SS58 prefix ${prefix} instead of ${expected}`, source);
+    }
+  }
+
+  // --- Stale _old snapshots ---
+  for (const [file, snapshot] of snapshots.entries()) {
+    const { name, ext } = path.parse(file);
+    const activeFile = `${name.replace(OLD_SNAPSHOT, "")}${ext}`;
+    const current = active.get(activeFile);
+    const snapshotPath = path.join(directory, file);
+    if (!current) {
+      add("old-snapshots", "warning", `No active file ${activeFile} for this snapshot`, snapshotPath);
+      continue;
+    }
+    const currentKeys = new Set(current.map(proxyKey));
+    const snapshotKeys = new Set(snapshot.map(proxyKey));
+    const removed = Array.from(snapshotKeys).filter((key) => !currentKeys.has(key)).length;
+    const added = Array.from(currentKeys).filter((key) => !snapshotKeys.has(key)).length;
+    if (removed || added) {
+      add(
+        "old-snapshots",
+        "warning",
+        `Differs from ${activeFile}: ${removed} proxies only in the snapshot, ${added} only in the active file`,
+        snapshotPath
+      );
+    }
+  }
+
+  return {
+    bundle: directory,
+    files: [...(balances ? [balancesFile] : []), ...active.keys(), ...snapshots.keys()],
+    accounts: balances?.length ?? 0,
+    proxies: proxies.length,
+    ss58: expected,
+    totalSupply: balances?.reduce((sum, row) => sum + row.free + row.reserved, 0n),
+    findings,
+  };
+}
+
+function failed(result: LintResult, strict: boolean): boolean {
+  return result.findings.some((finding) => finding.severity === "error" || strict);
+}
+
+function describeFinding(finding: Finding): string {
+  return `${finding.message}${finding.source ? ` (${finding.source})` : ""}`;
+}
+
+function renderText(result: LintResult, token: TokenInfo, strict: boolean): string {
+  const lines = [
+    `Genesis bundle ${result.bundle}`,
+    `  ${result.accounts} accounts, ${result.proxies} proxies, SS58 prefix ${result.ss58}`,
+    `  Total supply: ${result.totalSupply === undefined ? "unknown" : describeAmount(result.totalSupply, token)}`,
+  ];
+  for (const [check, description] of Object.entries(CHECKS)) {
+    const findings = result.findings.filter((finding) => finding.check === check);
+    const mark = findings.some((f) => f.severity === "error") ? "❌" : findings.length ? "⚠️" : "✅";
+    lines.push(`\n${mark} ${description}`);
+    for (const finding of findings) {
+      lines.push(`  ${finding.severity === "error" ? "❌" : "⚠️"} ${describeFinding(finding)}`);
+    }
+  }
+  const errors = result.findings.filter((finding) => finding.severity === "error").length;
+  const warnings = result.findings.length - errors;
+  lines.push(`\n${errors} errors, ${warnings} warnings${strict ? " (strict)" : ""} ${failed(result, strict) ? "❌" : "✅"}`);
+  return `${lines.join("\n")}\n`;
+}
+
+function renderMarkdown(result: LintResult, token: TokenInfo, strict: boolean): string {
+  return [
+    `## Genesis bundle ${result.bundle} ${failed(result, strict) ? "❌" : "✅"}`,
+    ``,
+    `${result.accounts} accounts, ${result.proxies} proxies, SS58 prefix ${result.ss58}. Total supply: ${
+      result.totalSupply === undefined ? "unknown" : describeAmount(result.totalSupply, token)
+    }`,
+    ``,
+    renderMarkdownTable(
+      ["Check", "Severity", "Finding", "Source"],
+      result.findings.map((finding) => [finding.check, finding.severity, finding.message, finding.source ?? ""])
+    ),
+    ``,
+  ].join("\n");
+}
+
+function renderJunitReport(result: LintResult, strict: boolean): string {
+  return renderJunit(
+    `genesis-bundle-lint ${result.bundle}`,
+    Object.entries(CHECKS).map(([check, description]) => {
+      const findings = result.findings.filter((finding) => finding.check === check);
+      return {
+        name: description,
+        cases: findings.length
+          ? findings.map((finding) => ({
+              name: describeFinding(finding),
+              // Warnings only fail in --strict mode
+              ...(finding.severity === "error" || strict ? { failure: finding.message } : {}),
+            }))
+          : [{ name: check }],
+      };
+    })
+  );
+}
+
+async function main() {
+  // The chain is optional: it gives the proxy types, token and SS58 prefix
+  const api = args["url"] || args["network"] ? await getApiFor(args) : undefined;
+
+  try {
+    const token = api ? await getTokenInfo(api) : { decimals: args["decimals"], symbol: args["symbol"] };
+    const proxyTypes = api ? getProxyTypes(api) : undefined;
+    const ss58 = args["ss58"] ?? api?.registry.chainSS58;
+    if (!api) {
+      log(`Offline: proxy types are not checked against a runtime`);
+    }
+
+    const result = lintBundle(args["bundle-dir"], token, proxyTypes, ss58);
+    const strict: boolean = args["strict"];
+
+    switch (args["format"]) {
+      case "json":
+        writeReport(
+          args,
+          `${JSON.stringify(
+            { ...result, totalSupply: result.totalSupply?.toString(), strict, passed: !failed(result, strict) },
+            null,
+            2
+          )}\n`
+        );
+        break;
+      case "junit":
+        writeReport(args, renderJunitReport(result, strict));
+        break;
+      case "markdown":
+        writeReport(args, renderMarkdown(result, token, strict));
+        break;
+      default:
+        writeReport(args, renderText(result, token, strict));
+    }
+
+    if (failed(result, strict)) {
+      process.exitCode = EXIT_FAILED;
+    }
+  } catch (error) {
+    console.error(error);
+    process.exitCode = EXIT_ERROR;
+  } finally {
+    await api?.disconnect();
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = EXIT_ERROR;
+  })
+  .finally(() => process.exit());
@@ -3,34 +3,60 @@
 import yargs from "yargs";
 import { hideBin } from "yargs/helpers";
 import { NETWORK_YARGS_OPTIONS, getApiFor } from "./utils/network";
+import {
+  ORIGIN_YARGS_OPTIONS,
+  OriginCliArgs,
+  asRoot,
+  printGovernanceDetails,
+  printMultisigDetails,
+  printOriginCall,
+  sendOriginCall,
+  wrapForOrigin,
+} from "./utils/origin";
+import { EXTRINSIC_YARGS_OPTIONS, ExtrinsicCliArgs } from "./utils/extrinsic";
+import { SIGNER_YARGS_OPTIONS, SignerCliArgs, hasSignerSource, loadSigner } from "./utils/signer";
+import { OFFLINE_YARGS_OPTIONS, OfflineCliArgs, writeOfflinePayload } from "./utils/offline";
+import { SIMULATE_YARGS_OPTIONS, SimulateCliArgs, applyChopsticksFlag, simulateOriginCall } from "./utils/simulate";
+import {
+  ProxyDefinition,
+  assertProxyDeposits,
+  fetchOnChainProxies,
+  getProxyTypes,
+  groupByGenesis,
+  readProxyCsvPath,
+} from "./utils/proxy";
+import {
+  BATCH_YARGS_OPTIONS,
+  BatchCliArgs,
+  manifestEntry,
+  printBatchPlan,
+  selectBatches,
+  splitIntoBatches,
+  writeBatchManifest,
+} from "./utils/batch";
 import fs from "fs";
 import { decodeAddress } from "@polkadot/util-crypto";
-import { parse } from "csv-parse/sync";
-import { signFakeWithApi } from "@acala-network/chopsticks-utils";
 import { blake2AsHex } from "@polkadot/util-crypto";
 
 /**
  * CSV FORMAT (strict headers & order):
  * Genesis Account,Proxy Account,Proxy Type,Delay
+ *
+ * A genesis account may have several proxies, listed in one or several files.
+ * Both --proxy-file and --proxy-file-old accept a file or a directory.
  */
 
-type ProxyRow = {
-  "Genesis Account": string;
-  "Proxy Account": string;
-  "Proxy Type": string;
-  "Delay": string | number;
-};
-
-type PerGenesisConfig = Map<
-  string,
-  { proxy: string; type: string; delay: string }
->;
-
 const args = yargs(hideBin(process.argv))
   .options({
     ...NETWORK_YARGS_OPTIONS,
+    ...ORIGIN_YARGS_OPTIONS,
+    ...SIGNER_YARGS_OPTIONS,
+    ...EXTRINSIC_YARGS_OPTIONS,
+    ...OFFLINE_YARGS_OPTIONS,
+    ...SIMULATE_YARGS_OPTIONS,
+    ...BATCH_YARGS_OPTIONS,
     "proxy-file": {
-      describe: "Location of CSV file with the NEW proxy configuration",
+      describe: "CSV file, or directory of CSV files, with the NEW proxy configuration",
       type: "string",
       demandOption: true,
       alias: ["pf"],
@@ -40,22 +66,27 @@ const args = yargs(hideBin(process.argv))
       },
     },
     "proxy-file-old": {
-      describe: "Location of CSV file with the OLD proxy configuration",
+      describe: "CSV file, or directory of CSV files, with the OLD proxy configuration (reconciles against chain state if omitted)",
       type: "string",
-      demandOption: true,
+      demandOption: false,
       alias: ["pold"],
       coerce: (arg: string) => {
         if (!fs.existsSync(arg)) throw new Error(`Proxy file not found: ${arg}`);
         return arg;
       },
     },
+    reconcile: {
+      describe: "Diff against the proxies on chain instead of --proxy-file-old, removing those not in --proxy-file",
+      type: "boolean",
+      demandOption: false,
+    },
     sudo: {
       describe: "Wrap the batch in sudo.sudo(...)",
       type: "boolean",
       demandOption: false,
     },
     chopsticks: {
-      describe: "Chopsticks test (expects endpoint to be ws://localhost:8000",
+      describe: "Deprecated, same as --simulate <url> --simulate-as sudo",
       type: "boolean",
       demandOption: false,
     },
@@ -63,152 +94,26 @@ const args = yargs(hideBin(process.argv))
   .strict()
   .argv as unknown as {
   ["proxy-file"]: string;
-  ["proxy-file-old"]: string;
+  ["proxy-file-old"]?: string;
+  reconcile?: boolean;
   sudo?: boolean;
-  chopsticks?: string;
-} & Record<string, any>;
-
-// Known ProxyType values (case-insensitive normalization)
-const KNOWN_PROXY_TYPES = new Set([
-  "Any",
-  "NonTransfer",
-  "Governance",
-  "Staking",
-  "IdentityJudgement",
-  "CancelProxy",
-  "Auction",
-  "Society",
-  "NominationPools",
-  "FastGovernance",
-  "EthereumBridge",
-  "Assets",
-]);
-
-function normalizeProxyType(raw: string): string {
-  // Trim & TitleCase-like normalization
-  const t = String(raw).trim();
-  // Accept common synonyms
-  const synonyms: Record<string, string> = {
-    any: "Any",
-    staking: "Staking",
-    governance: "Governance",
-    nontransfer: "NonTransfer",
-    "non-transfer": "NonTransfer",
-    identityjudgement: "IdentityJudgement",
-    "identity-judgement": "IdentityJudgement",
-    cancelproxy: "CancelProxy",
-    pools: "NominationPools",
-    nominationpools: "NominationPools",
-  };
-  const key = t.replace(/[\s_-]/g, "").toLowerCase();
-  const mapped = synonyms[key] ?? t.charAt(0).toUpperCase() + t.slice(1);
-  if (!KNOWN_PROXY_TYPES.has(mapped)) {
-    throw new Error(
-      `Unknown Proxy Type "${raw}". Known: ${Array.from(KNOWN_PROXY_TYPES).join(
-        ", "
-      )}`
-    );
-  }
-  return mapped;
-}
+  chopsticks?: boolean;
+} & OriginCliArgs & SignerCliArgs & ExtrinsicCliArgs & OfflineCliArgs & SimulateCliArgs & BatchCliArgs & Record<string, any>;
 
-function validateCSVStructure(filePath: string): ProxyRow[] {
-  const EXPECTED_HEADERS = [
-    "Genesis Account",
-    "Proxy Account",
-    "Proxy Type",
-    "Delay",
-  ];
-
-  const content = fs.readFileSync(filePath, "utf-8");
-  const records: ProxyRow[] = parse(content, {
-    columns: true,
-    skip_empty_lines: true,
-    trim: true,
-  });
-
-  if (records.length === 0) {
-    throw new Error(`CSV file "${filePath}" is empty.`);
-  }
-
-  // Check headers & order
-  const headers = Object.keys(records[0]);
-  for (let i = 0; i < EXPECTED_HEADERS.length; i++) {
-    if (headers[i] !== EXPECTED_HEADERS[i]) {
-      throw new Error(
-        `CSV header mismatch in "${filePath}". Expected "${EXPECTED_HEADERS[i]}", got "${headers[i]}" at column ${i + 1}.`
-      );
-    }
-  }
-
-  // Validate rows
-  for (const [index, row] of records.entries()) {
-    const lineNumber = index + 2; // header is line 1
-    const genesis = row["Genesis Account"];
-    const proxy = row["Proxy Account"];
-    const type = row["Proxy Type"];
-    const delay = row["Delay"];
-
-    if (!genesis || !proxy || !type || delay === undefined) {
-      throw new Error(`Missing field(s) in row ${lineNumber} (${filePath}).`);
-    }
-
-    // Validate addresses
-    try {
-      decodeAddress(genesis);
-    } catch {
-      throw new Error(
-        `Invalid Genesis Account address at row ${lineNumber} (${filePath}).`
-      );
-    }
-
-    try {
-      decodeAddress(proxy);
-    } catch {
-      throw new Error(
-        `Invalid Proxy Account address at row ${lineNumber} (${filePath}).`
-      );
-    }
-
-    // Validate Proxy Type
-    normalizeProxyType(type);
-
-    // Validate Delay is a non-negative integer
-    const d = Number(delay);
-    if (!Number.isFinite(d) || isNaN(d) || d < 0 || !Number.isInteger(d)) {
-      throw new Error(
-        `Invalid Delay value (must be a non-negative integer) at row ${lineNumber} (${filePath}).`
-      );
-    }
-  }
-
-  return records;
-}
+// Pallets whose events are relevant when submitting the batch
+const PROXY_EVENT_SECTIONS = ["proxy", "multisig", "preimage", "referenda"];
 
-function toPerGenesisMap(rows: ProxyRow[]): PerGenesisConfig {
-  const map: PerGenesisConfig = new Map();
-  for (const r of rows) {
-    const genesis = r["Genesis Account"].trim();
-    if (map.has(genesis)) {
-      throw new Error(
-        `Duplicate Genesis Account in CSV: ${genesis}. This tool expects a single proxy config per genesis account.`
-      );
-    }
-    map.set(genesis, {
-      proxy: r["Proxy Account"].trim(),
-      type: normalizeProxyType(r["Proxy Type"]),
-      delay: String(Number(r["Delay"])),
-    });
-  }
-  return map;
-}
-
-async function buildCalls(
+// Per genesis account: removes the proxies that are only in the old
+// configuration, then adds the ones only in the new one. Proxies present in
+// both are left alone. Also returns the net change in proxies per account.
+function buildCalls(
   api: any,
-  newCfg: PerGenesisConfig,
-  oldCfg: PerGenesisConfig
+  newCfg: Map<string, Map<string, ProxyDefinition>>,
+  oldCfg: Map<string, Map<string, ProxyDefinition>>
 ) {
   const calls: any[] = [];
+  const changes = new Map<string, number>();
+  const labels: string[] = [];
 
   // Union of all genesis accounts
   const allGenesis = new Set<string>([
@@ -217,44 +122,31 @@ async function buildCalls(
   ]);
 
   for (const genesis of allGenesis) {
-    const oldRow = oldCfg.get(genesis);
-    const newRow = newCfg.get(genesis);
+    const oldProxies = oldCfg.get(genesis) ?? new Map<string, ProxyDefinition>();
+    const newProxies = newCfg.get(genesis) ?? new Map<string, ProxyDefinition>();
+    const removed = Array.from(oldProxies.entries()).filter(([key]) => !newProxies.has(key));
+    const added = Array.from(newProxies.entries()).filter(([key]) => !oldProxies.has(key));
 
     // Skip if identical
-    if (
-      oldRow &&
-      newRow &&
-      oldRow.proxy === newRow.proxy &&
-      oldRow.type === newRow.type &&
-      oldRow.delay === newRow.delay
-    ) {
+    if (removed.length === 0 && added.length === 0) {
       continue;
     }
 
+    // Removing first frees the deposit and the slot (proxy.MaxProxies)
     const innerCalls: any[] = [];
-
-    if (newRow) {
-      innerCalls.push(
-        api.tx.proxy.addProxy(
-          decodeAddress(newRow.proxy),
-          newRow.type,
-          BigInt(newRow.delay)
-        )
-      );
+    const address = (removed[0] ?? added[0])[1].genesis;
+    changes.set(genesis, added.length - removed.length);
+    labels.push(`${address}: -${removed.length} +${added.length}`);
+    console.log(`\nGenesis ${address}:`);
+    for (const [, p] of removed) {
+      console.log(`  - ${p.delegate} ${p.proxyType} delay ${p.delay} (${p.source})`);
+      innerCalls.push(api.tx.proxy.removeProxy(decodeAddress(p.delegate), p.proxyType, BigInt(p.delay)));
     }
-
-    if (oldRow) {
-      innerCalls.push(
-        api.tx.proxy.removeProxy(
-          decodeAddress(oldRow.proxy),
-          oldRow.type,
-          BigInt(oldRow.delay)
-        )
-      );
+    for (const [, p] of added) {
+      console.log(`  + ${p.delegate} ${p.proxyType} delay ${p.delay} (${p.source})`);
+      innerCalls.push(api.tx.proxy.addProxy(decodeAddress(p.delegate), p.proxyType, BigInt(p.delay)));
     }
 
-    if (innerCalls.length === 0) continue;
-
     // IMPORTANT: batch the per-genesis actions together, then dispatchAs that genesis
     const perGenesisBatch =
       innerCalls.length === 1
@@ -262,14 +154,14 @@ async function buildCalls(
         : api.tx.utility.batchAll(innerCalls);
 
     const dispatchAsGenesis = api.tx.utility.dispatchAs(
-      { system: { Signed: decodeAddress(genesis) } },
+      { system: { Signed: genesis } },
       perGenesisBatch
     );
 
     calls.push(dispatchAsGenesis);
   }
 
-  return calls;
+  return { calls, changes, labels };
 }
 
 async function main() {
@@ -277,55 +169,130 @@ async function main() {
   const api = await getApiFor(args);
   await api.isReady;
 
-  // Read & validate CSVs
-  const dataNew = validateCSVStructure(args["proxy-file"]);
-  const dataOld = validateCSVStructure(args["proxy-file-old"]);
+  // Optional signer: without it the final tx is only printed (or written with --build)
+  const signer = hasSignerSource(args) && !args["build"] ? await loadSigner(args) : undefined;
+
+  // --chopsticks used to fake-sign as sudo on the forked chain, the batch is
+  // always dispatched as root
+  applyChopsticksFlag(args, true);
 
-  // Convert to keyed maps (one row per genesis)
-  const newMap = toPerGenesisMap(dataNew);
-  const oldMap = toPerGenesisMap(dataOld);
+  // Read & validate CSVs
+  const proxyTypes = getProxyTypes(api);
+  const dataNew = readProxyCsvPath(args["proxy-file"], proxyTypes);
+
+  // Group by genesis account, keyed by (delegate, type, delay)
+  const newMap = groupByGenesis(dataNew);
+
+  // The old configuration is what is on chain, unless an old CSV is trusted instead
+  const reconcile = args["reconcile"] || !args["proxy-file-old"];
+  let oldMap: Map<string, Map<string, ProxyDefinition>>;
+  if (reconcile) {
+    if (args["proxy-file-old"]) {
+      throw new Error(`--reconcile and --proxy-file-old cannot be used together`);
+    }
+    console.log(`\n--- RECONCILING AGAINST CHAIN STATE ---`);
+    const accounts = Array.from(newMap.values()).map((proxies) => proxies.values().next().value!.genesis);
+    oldMap = await fetchOnChainProxies(api, accounts);
+  } else {
+    oldMap = groupByGenesis(readProxyCsvPath(args["proxy-file-old"]!, proxyTypes));
+  }
 
   // Build calls
-  const calls = await buildCalls(api, newMap, oldMap);
+  const { calls, changes, labels } = buildCalls(api, newMap, oldMap);
+
+  if (reconcile) {
+    // Proxies on chain that are in none of the CSV files
+    const extra = Array.from(oldMap.entries()).flatMap(([genesis, proxies]) =>
+      Array.from(proxies.entries())
+        .filter(([key]) => !newMap.get(genesis)?.has(key))
+        .map(([, proxy]) => proxy)
+    );
+    if (extra.length) {
+      console.log(`\n--- ${extra.length} ON-CHAIN PROXIES NOT IN THE CSV FILES WILL BE REMOVED ---`);
+      for (const p of extra) {
+        console.log(`  ${p.genesis}: ${p.delegate} ${p.proxyType} delay ${p.delay}`);
+      }
+    }
+  }
 
   if (calls.length === 0) {
-    console.log("\nNothing to do: old and new proxy configurations are identical.");
+    console.log(
+      reconcile
+        ? "\nNothing to do: the proxies on chain already match the CSV files."
+        : "\nNothing to do: old and new proxy configurations are identical."
+    );
     await api.disconnect();
     return;
   }
 
-  // Build batch
-  const batchTx = await api.tx.utility.batchAll(calls);
-
-  // Wrap the batch inside sudo if requested
-  const finalTx = await api.tx.sudo.sudo(batchTx);
-
-  // Print all hex for review
-  console.log(`\n --- BATCH TX HEX ---`);
-  console.log(batchTx.method.toHex());
-  console.log(`\n--- FINAL TX HEX ---`);
-  console.log(finalTx.method.toHex());
-  console.log(`\n--- TX HASH ---`);
-  console.log(blake2AsHex(finalTx.method.toHex()));
-
-  // Optional: Test on Chopsticks with fake sudo (requires --sudo)
-  if (args["chopsticks"] && args["sudo"] && args['url'] === 'ws://localhost:8000') {
-    console.log(`\n--- Chopsticks Testing ${args["chopsticks"]} ---`);
-
-    // Create Chopsticks API
-    const chopsticksAPI = await getApiFor({ url: args["url"] });
-    const sudo = (await chopsticksAPI.query.sudo.key()).toString();
-    console.log(`Sudo: ${sudo}`);
-
-    // Send fake transaction
-    await signFakeWithApi(chopsticksAPI, finalTx, sudo);
-    await finalTx.send();
-    console.log("--- Chopsticks Test Done ---");
-    await chopsticksAPI.disconnect();
-  } else if (args["chopsticks"]) {
-    console.log(
-      `\nSkipping Chopsticks test (either --chopsticks or --sudo missing, or --url not ws://localhost:8000).`
-    );
+  // Every genesis account must afford its new proxy deposit
+  console.log();
+  await assertProxyDeposits(api, changes);
+
+  // Split in as many batches as needed to fit the block weight and length limits
+  console.log(`\n--- BATCHES ---`);
+  const batches = await splitIntoBatches(api, calls, labels, args["batch-fill"]);
+  printBatchPlan(batches);
+  const selected = selectBatches(batches, args);
+
+  // Build every batch, wrapped inside sudo (or left for the referendum under
+  // governance) and for the account actually submitting it (proxy and/or multisig)
+  const prepared = [];
+  for (const [i, batch] of batches.entries()) {
+    const batchTx = api.tx.utility.batchAll(batch.calls);
+    const finalTx = asRoot(api, batchTx, args);
+    const originCall = await wrapForOrigin(api, finalTx, args, signer?.address);
+    prepared.push({ batchTx, finalTx, originCall, entry: manifestEntry(i + 1, batch, finalTx, originCall.tx) });
+  }
+  if (args["manifest"]) {
+    writeBatchManifest(args["manifest"], prepared.map(({ entry }) => entry));
+  }
+
+  for (const i of selected) {
+    const { batchTx, finalTx, originCall } = prepared[i];
+    const label = batches.length > 1 ? ` (BATCH ${i + 1}/${batches.length})` : "";
+
+    // Print all hex for review
+    console.log(`\n --- BATCH TX HEX${label} ---`);
+    console.log(batchTx.method.toHex());
+    console.log(`\n--- FINAL TX HEX${label} ---`);
+    console.log(finalTx.method.toHex());
+    console.log(`\n--- TX HASH${label} ---`);
+    console.log(blake2AsHex(finalTx.method.toHex()));
+
+    if (args["origin"] !== "sudo") {
+      const { tx: originTx, multisig, governance } = originCall;
+      console.log(`\n--- ${args["origin"].toUpperCase()} TX HEX${label} ---`);
+      console.log(originTx.method.toHex());
+      if (multisig) {
+        printMultisigDetails(multisig);
+      }
+      if (governance) {
+        printGovernanceDetails(governance);
+      }
+    }
+
+    // Write it for offline signing, or submit it when a signer is given
+    let ok = true;
+    if (args["build"]) {
+      console.log(`\n--- OFFLINE PAYLOAD ---`);
+      await writeOfflinePayload(api, originCall.tx, args["sender"], args, `genesis proxy batch${label}`);
+    } else if (args["simulate"]) {
+      console.log(`\n--- SIMULATION${label} ---`);
+      const sender = signer?.address ?? args["sender"];
+      ok = await simulateOriginCall(api, finalTx, originCall, args, sender, ["proxy.proxies"]);
+    } else if (signer && args["dry-run"]) {
+      console.log(`\n--- DRY RUN as ${signer.address} ---`);
+      await printOriginCall(originCall, signer.address);
+    } else if (signer) {
+      console.log(`\n--- SUBMITTING as ${signer.address}${label} ---`);
+      ok = await sendOriginCall(api, originCall, signer, args, PROXY_EVENT_SECTIONS);
+    }
+    if (!ok) {
+      // Later batches are not sent, so they can be retried in order
+      process.exitCode = 1;
+      break;
+    }
   }
 
   await api.disconnect();
@@ -1,10 +1,38 @@
 import yargs from "yargs";
 import { NETWORK_YARGS_OPTIONS, getApiFor } from "./utils/network";
+import {
+  ORIGIN_YARGS_OPTIONS,
+  asRoot,
+  printGovernanceDetails,
+  printMultisigDetails,
+  printOriginCall,
+  sendOriginCall,
+  wrapForOrigin,
+} from "./utils/origin";
+import { EXTRINSIC_YARGS_OPTIONS } from "./utils/extrinsic";
+import { SIGNER_YARGS_OPTIONS, hasSignerSource, loadSigner } from "./utils/signer";
+import { OFFLINE_YARGS_OPTIONS, writeOfflinePayload } from "./utils/offline";
+import { SIMULATE_YARGS_OPTIONS, applyChopsticksFlag, simulateOriginCall } from "./utils/simulate";
+import {
+  ProxyDefinition,
+  assertProxyDeposits,
+  fetchOnChainProxies,
+  getProxyTypes,
+  groupByGenesis,
+  proxyKey,
+  readProxyCsvPath,
+} from "./utils/proxy";
+import {
+  BATCH_YARGS_OPTIONS,
+  manifestEntry,
+  printBatchPlan,
+  selectBatches,
+  splitIntoBatches,
+  writeBatchManifest,
+} from "./utils/batch";
 import fs from "fs";
-import path from "path";
+import { u8aToHex } from "@polkadot/util";
 import { decodeAddress } from "@polkadot/util-crypto";
-import { parse } from "csv-parse/sync";
-import { signFakeWithApi } from "@acala-network/chopsticks-utils";
 
 /* CSV file must have the following format
 Genesis Account | Proxy Account | Proxy Type | Delay
@@ -14,6 +42,12 @@ Account 1       | Account 2     | Any        | 0
 
 const args = (yargs.options({
   ...NETWORK_YARGS_OPTIONS,
+  ...ORIGIN_YARGS_OPTIONS,
+  ...SIGNER_YARGS_OPTIONS,
+  ...EXTRINSIC_YARGS_OPTIONS,
+  ...OFFLINE_YARGS_OPTIONS,
+  ...SIMULATE_YARGS_OPTIONS,
+  ...BATCH_YARGS_OPTIONS,
   "proxy-dir": {
     describe: "Directory containing CSV files with proxy configurations",
     type: "string",
@@ -36,90 +70,31 @@ const args = (yargs.options({
     demandOption: false,
     nargs: 0,
   },
+  "skip-conflicts": {
+    describe: "Add the other proxies even if some conflict with the chain, and exit with 1",
+    type: "boolean",
+    default: false,
+  },
   chopsticks: {
-    describe: "Chopsticks test (expects endpoint to be ws://localhost:8000",
+    describe: "Deprecated, same as --simulate <url> (with --simulate-as sudo when used with --sudo)",
     type: "boolean",
     demandOption: false,
   },
 }).argv) as any;
 
+// Pallets whose events are relevant when submitting the batch
+const PROXY_EVENT_SECTIONS = ["proxy", "multisig", "preimage", "referenda"];
+
 // Initialize
 let batchCall: any[] = [];
 
-function validateCSVStructure(filePath: string): any[] {
-  const EXPECTED_HEADERS = [
-    "Genesis Account",
-    "Proxy Account",
-    "Proxy Type",
-    "Delay",
-  ];
-
-  const content = fs.readFileSync(filePath, "utf-8");
-
-  const records = parse(content, {
-    columns: true,
-    skip_empty_lines: true,
-    trim: true,
-  });
-
-  if (records.length === 0) {
-    throw new Error(`CSV file is empty: ${filePath}`);
-  }
-
-  // Check headers
-  const headers = Object.keys(records[0]);
-  for (let i = 0; i < EXPECTED_HEADERS.length; i++) {
-    if (headers[i] !== EXPECTED_HEADERS[i]) {
-      throw new Error(
-        `CSV header mismatch in ${filePath}. Expected "${EXPECTED_HEADERS[i]}", got "${headers[i]}" at column ${i + 1}`
-      );
-    }
-  }
-
-  // Validate rows
-  for (const [index, row] of records.entries()) {
-    const lineNumber = index + 2; // +2 to account for header row
-
-    const genesis = row["Genesis Account"];
-    const proxy = row["Proxy Account"];
-    const type = row["Proxy Type"];
-    const delay = row["Delay"];
-
-    if (!genesis || !proxy || !type || delay === undefined) {
-      throw new Error(`Missing field(s) in row ${lineNumber} of ${filePath}`);
-    }
-
-    // Validate addresses
-    try {
-      decodeAddress(genesis);
-    } catch {
-      throw new Error(`Invalid Genesis Account address at row ${lineNumber} of ${filePath}`);
-    }
-
-    try {
-      decodeAddress(proxy);
-    } catch {
-      throw new Error(`Invalid Proxy Account address at row ${lineNumber} of ${filePath}`);
-    }
-
-    // Validate Delay is a number
-    if (isNaN(Number(delay))) {
-      throw new Error(
-        `Invalid Delay value (not a number) at row ${lineNumber} of ${filePath}`
-      );
-    }
-  }
-
-  return records;
-}
-
 // Create utility dispatch as call in batch
-async function utilityDispatchAsCall(api: any, data: any[]) {
+async function utilityDispatchAsCall(api: any, data: ProxyDefinition[]) {
   for (let i = 0; i < data.length; i++) {
-    const genesisAccount = decodeAddress(data[i]["Genesis Account"]);
-    const proxyAccount = decodeAddress(data[i]["Proxy Account"]);
-    const proxyType = data[i]["Proxy Type"];
-    const delay = BigInt(data[i]["Delay"]);
+    const genesisAccount = decodeAddress(data[i].genesis);
+    const proxyAccount = decodeAddress(data[i].delegate);
+    const proxyType = data[i].proxyType;
+    const delay = BigInt(data[i].delay);
 
     const call = api.tx.utility.dispatchAs(
       { system: { Signed: genesisAccount } },
@@ -132,40 +107,34 @@ async function utilityDispatchAsCall(api: any, data: any[]) {
   return batchCall;
 }
 
-function collectCSVDataFromDir(directoryPath: string): any[] {
-  const files = fs.readdirSync(directoryPath);
-  const reOld = /_old(\d+)?$/i;
-
-  const csvFiles = files.filter((file) => {
-    const { ext, name } = path.parse(file);
-    return ext.toLowerCase() === ".csv" && !reOld.test(name);
-  });
-
-  if (csvFiles.length === 0) {
-    throw new Error(`No CSV files found in the directory: ${directoryPath}`);
-  }
-
-  let allRecords: any[] = [];
-
-  for (const csvFile of csvFiles) {
-    if (csvFile === "Genesis_Accounts.csv") {
-      console.log(`Skipping file: ${csvFile}`);
-      continue; // Skip this file
+// Splits the CSV proxies into those to add, those already on chain and those
+// whose delegate already holds the same type with another delay
+async function filterRegistered(api: any, data: ProxyDefinition[]) {
+  const wanted = groupByGenesis(data);
+  const accounts = Array.from(wanted.values()).map((proxies) => proxies.values().next().value!.genesis);
+  const onChain = await fetchOnChainProxies(api, accounts);
+
+  const toAdd: ProxyDefinition[] = [];
+  const skipped: ProxyDefinition[] = [];
+  const conflicts: { proxy: ProxyDefinition; existing: ProxyDefinition }[] = [];
+  for (const [genesis, proxies] of wanted) {
+    const existing = Array.from(onChain.get(genesis)?.entries() ?? []);
+    for (const [key, proxy] of proxies) {
+      if (existing.some(([existingKey]) => existingKey === key)) {
+        skipped.push(proxy);
+        continue;
+      }
+      const conflict = existing.find(
+        ([, p]) => proxyKey({ ...p, delay: proxy.delay }) === key
+      );
+      if (conflict) {
+        conflicts.push({ proxy, existing: conflict[1] });
+        continue;
+      }
+      toAdd.push(proxy);
     }
-
-    const fullPath = path.join(directoryPath, csvFile);
-    console.log(`Parsing: ${csvFile}`);
-    const records = validateCSVStructure(fullPath);
-    allRecords = allRecords.concat(records);
   }
-
-  if (allRecords.length === 0) {
-    throw new Error(
-      `After filtering and skipping, no valid CSV data was found in directory: ${directoryPath}`
-    );
-  }
-
-  return allRecords;
+  return { toAdd, skipped, conflicts };
 }
 
 async function main() {
@@ -173,43 +142,126 @@ async function main() {
   const api = await getApiFor(args);
   await api.isReady;
 
+  // Optional signer: without it the final tx is only printed (or written with --build)
+  const signer = hasSignerSource(args) && !args["build"] ? await loadSigner(args) : undefined;
+
+  // --chopsticks used to fake-sign as sudo on the forked chain, which only
+  // works when the batch is wrapped in sudo (or proposed under governance)
+  applyChopsticksFlag(args, args["sudo"] || args["origin"] === "governance");
+
   // Collect & validate data from directory
-  const data = collectCSVDataFromDir(args["proxy-dir"]);
+  const data = readProxyCsvPath(args["proxy-dir"], getProxyTypes(api));
+
+  // Leave out the proxies already registered, so the script can be run again
+  // after a partial success
+  const { toAdd, skipped, conflicts } = await filterRegistered(api, data);
+  console.log(`\n--- PROXIES ---`);
+  console.log(`Skipped (already on chain): ${skipped.length}`);
+  console.log(`Added:                      ${toAdd.length}`);
+  console.log(`Conflicts:                  ${conflicts.length}`);
+  for (const { proxy, existing } of conflicts) {
+    console.log(
+      `  ${proxy.genesis}: ${proxy.delegate} ${proxy.proxyType} has delay ${existing.delay} on chain, ${proxy.delay} in ${proxy.source}`
+    );
+  }
+  if (conflicts.length) {
+    process.exitCode = 1;
+    if (!args["skip-conflicts"]) {
+      console.log(`Nothing submitted: fix the conflicts with genesisProxyModification.ts, or add the other proxies with --skip-conflicts`);
+      await api.disconnect();
+      return;
+    }
+    console.log(`Conflicting proxies are not added, fix them with genesisProxyModification.ts`);
+  }
+  if (toAdd.length === 0) {
+    console.log(`\nNothing to do: every proxy is already on chain.`);
+    await api.disconnect();
+    return;
+  }
+
+  // Every genesis account must afford the deposit of its new proxies
+  const changes = new Map<string, number>();
+  for (const proxy of toAdd) {
+    const genesis = u8aToHex(decodeAddress(proxy.genesis));
+    changes.set(genesis, (changes.get(genesis) ?? 0) + 1);
+  }
+  await assertProxyDeposits(api, changes);
 
   // Create utility dispatch as call in batch
-  const batchData = await utilityDispatchAsCall(api, data);
+  const batchData = await utilityDispatchAsCall(api, toAdd);
+  const labels = toAdd.map((p) => `${p.genesis}: + ${p.delegate} ${p.proxyType} delay ${p.delay}`);
 
-  // Create batch call
-  let finalTx = api.tx.utility.batchAll(batchData);
+  // Split in as many batches as needed to fit the block weight and length limits
+  console.log(`\n--- BATCHES ---`);
+  const batches = await splitIntoBatches(api, batchData, labels, args["batch-fill"]);
+  printBatchPlan(batches);
+  const selected = selectBatches(batches, args);
 
-  // Create sudo call
-  if (args["sudo"]) {
+  if (args["sudo"] && args["origin"] !== "governance") {
+    // Under governance the referendum provides the root origin instead
     console.log(`--- USING SUDO ---`);
-    finalTx = api.tx.sudo.sudo(finalTx);
+  }
+  if (args["origin"] !== "sudo") {
+    console.log(`--- USING ORIGIN ${args["origin"]} ---`);
   }
 
-  console.log(`--- FINAL TX ---`);
-  console.log(finalTx.toHex());
+  // Create batch calls, wrapped for the account actually submitting them (proxy and/or multisig)
+  const prepared = [];
+  for (const [i, batch] of batches.entries()) {
+    let finalTx = api.tx.utility.batchAll(batch.calls);
+    if (args["sudo"]) {
+      finalTx = asRoot(api, finalTx, args);
+    }
+    const originCall = await wrapForOrigin(api, finalTx, args, signer?.address);
+    prepared.push({ finalTx, originCall, entry: manifestEntry(i + 1, batch, finalTx, originCall.tx) });
+  }
+  if (args["manifest"]) {
+    writeBatchManifest(args["manifest"], prepared.map(({ entry }) => entry));
+  }
 
-  // Testing in Chopsticks
-  if (args["chopsticks"] && args["sudo"] && args["url"] === "ws://localhost:8000") {
-    console.log(`\n--- Chopsticks Testing ws://localhost:8000 ---`);
+  for (const i of selected) {
+    const { finalTx, originCall } = prepared[i];
+    const { tx: originTx, multisig, governance } = originCall;
+    const label = batches.length > 1 ? ` (BATCH ${i + 1}/${batches.length})` : "";
 
-    // Create Chopsticks API
-    const chopsticksAPI = await getApiFor({ url: args["url"] });
-    const sudo = (await chopsticksAPI.query.sudo.key()).toString();
-    console.log(`Sudo: ${sudo}`);
+    console.log(`\n--- FINAL TX${label} ---`);
+    console.log(originTx.toHex());
+    if (multisig) {
+      printMultisigDetails(multisig);
+    }
+    if (governance) {
+      printGovernanceDetails(governance);
+    }
 
-    // Send fake transaction
-    await signFakeWithApi(chopsticksAPI, finalTx, sudo);
-    await finalTx.send();
-    console.log("--- Chopsticks Test Done ---");
-    await chopsticksAPI.disconnect();
+    // Write it for offline signing, or submit it when a signer is given
+    let ok = true;
+    if (args["build"]) {
+      console.log(`\n--- OFFLINE PAYLOAD ---`);
+      await writeOfflinePayload(api, originCall.tx, args["sender"], args, `genesis proxy batch${label}`);
+    } else if (args["simulate"]) {
+      console.log(`\n--- SIMULATION${label} ---`);
+      const sender = signer?.address ?? args["sender"];
+      ok = await simulateOriginCall(api, finalTx, originCall, args, sender, ["proxy.proxies"]);
+    } else if (signer && args["dry-run"]) {
+      console.log(`\n--- DRY RUN as ${signer.address} ---`);
+      await printOriginCall(originCall, signer.address);
+    } else if (signer) {
+      console.log(`\n--- SUBMITTING as ${signer.address}${label} ---`);
+      ok = await sendOriginCall(api, originCall, signer, args, PROXY_EVENT_SECTIONS);
+    }
+    if (!ok) {
+      // Later batches are not sent, so they can be retried in order
+      process.exitCode = 1;
+      break;
+    }
   }
 
   await api.disconnect();
 }
 
 main()
-  .catch(console.error)
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
   .finally(() => process.exit());
@@ -1,11 +1,24 @@
 import yargs from "yargs";
-import { NETWORK_YARGS_OPTIONS, getApiFor } from "./utils/network";
-import fs from "fs";
-import * as path from "path";
-import { decodeAddress } from "@polkadot/util-crypto";
-import { parse } from "csv-parse/sync";
+import {
+  BLOCK_YARGS_OPTIONS,
+  NETWORK_YARGS_OPTIONS,
+  PinnedBlock,
+  describeBlock,
+  getApiAt,
+  getApiFor,
+} from "./utils/network";
+import {
+  REPORT_YARGS_OPTIONS,
+  renderJunit,
+  renderMarkdownTable,
+  reportLogger,
+  writeReport,
+} from "./utils/report";
+import { getProxyTypes, proxyTypeIndex, readProxyCsvPath } from "./utils/proxy";
+import { ApiPromise } from "@polkadot/api";
+import { u8aToHex } from "@polkadot/util";
+import { decodeAddress, encodeAddress } from "@polkadot/util-crypto";
 import "@tanssi/api-augment";
-import { PalletProxyProxyDefinition } from "@polkadot/types/lookup";
 
 /* CSV file must have the following format
 Genesis Account | Proxy Account | Proxy Type | Delay
@@ -15,232 +28,217 @@ Account 1       | Account 2     | Any        | 0
 
 const args = yargs.options({
   ...NETWORK_YARGS_OPTIONS,
+  ...BLOCK_YARGS_OPTIONS,
+  ...REPORT_YARGS_OPTIONS,
   "proxy-dir": {
     describe: "Folder where CSV files with proxy configuration",
     type: "string",
     demandOption: true,
     alias: ["pd"],
   },
-}).argv;
+  strict: {
+    describe: "Also fail on on-chain proxies that are not in the CSV files",
+    type: "boolean",
+    default: false,
+  },
+  ss58: {
+    describe: "SS58 prefix of the addresses in the report (defaults to the chain's)",
+    type: "number",
+  },
+}).argv as any;
+
+// Exit codes: proxies do not match the CSV files, or the check could not run
+const EXIT_MISMATCH = 1;
+const EXIT_ERROR = 2;
 
-// Define a type for a proxy configuration
+const log = reportLogger(args);
+
+// Define a type for a proxy configuration, as displayed in the reports
 interface ProxyConfig {
-  delegate: string;
+  delegate: string; // In the --ss58 format
   proxyType: string;
-  delay: string; // Storing as string for consistent comparison with CSV input
+  delay: number;
 }
 
-async function verifyAccounts(api, directoryPath: string) {
-  const EXPECTED_HEADERS = [
-    "Genesis Account",
-    "Proxy Account",
-    "Proxy Type",
-    "Delay",
-  ];
-
-  // Map to store expected proxies from CSV, keyed by Genesis Account
-  // Value will be an array of ProxyConfig objects
-  const expectedProxiesFromCsv: Map<string, ProxyConfig[]> = new Map();
+// Verification result of one genesis account
+interface AccountReport {
+  genesis: string;
+  matched: ProxyConfig[];
+  // In the CSV files but not on chain
+  missing: ProxyConfig[];
+  // On chain but not in the CSV files
+  unexpected: ProxyConfig[];
+  error?: string;
+}
 
-  // Read all files in the specified directory
-  const files = fs.readdirSync(directoryPath);
+// CSV file that could not be read, its proxies are not verified
+interface FileError {
+  file: string;
+  error: string;
+}
 
-  // Filter for CSV files that do not end with _old*
-  const reOld = /_old(\d+)?$/i;
-
-  const csvFiles = files.filter((file) => {
-    const { ext, name } = path.parse(file);
-    return ext.toLowerCase() === ".csv" && !reOld.test(name);
-  });
-
-  if (csvFiles.length === 0) {
-    throw new Error(`No CSV files found in the directory: ${directoryPath}`);
-  }
+// Proxies are compared on decoded public keys, ProxyType enum indices and
+// numeric delays, so the SS58 prefix and casing used in the CSV do not matter
+type ComparableProxy = ProxyConfig & { key: string };
+
+// Proxy types come from the connected runtime, proxies are read at `block`.
+// Empty files are skipped, unreadable ones are reported in `fileErrors`.
+async function verifyAccounts(
+  api: ApiPromise,
+  block: PinnedBlock,
+  directoryPath: string,
+  ss58: number,
+  fileErrors: FileError[]
+): Promise<AccountReport[]> {
+  const display = (publicKey: Uint8Array) => encodeAddress(publicKey, ss58);
 
   // --- Step 1: Parse all CSV files and collect expected proxy configurations ---
-  for (const csvFile of csvFiles) {
-    if (csvFile === "Genesis_Accounts.csv") {
-      console.log(`Skipping file: ${csvFile}`);
-      continue; // Skip this file
-    }
-
-    const filePath = path.join(directoryPath, csvFile);
-    console.log(`Reading CSV file: ${filePath}`);
-
-    const content = fs.readFileSync(filePath, "utf-8");
-
-    const records: Record<string, any>[] = parse(content, {
-      columns: true,
-      skip_empty_lines: true,
-      trim: true,
+  // Map to store expected proxies from CSV, keyed by the Genesis Account public key
+  const expectedProxiesFromCsv: Map<string, { genesis: string; proxies: ComparableProxy[] }> = new Map();
+  const csvProxies = readProxyCsvPath(directoryPath, getProxyTypes(api), {
+    log,
+    skipEmpty: true,
+    onFileError: (file, error) => fileErrors.push({ file, error: error.message }),
+  });
+  for (const proxy of csvProxies) {
+    const genesisKey = decodeAddress(proxy.genesis);
+    const delegateKey = decodeAddress(proxy.delegate);
+    const typeIndex = proxyTypeIndex(api, proxy.proxyType);
+    const account = expectedProxiesFromCsv.get(u8aToHex(genesisKey)) ?? {
+      genesis: display(genesisKey),
+      proxies: [],
+    };
+    account.proxies.push({
+      delegate: display(delegateKey),
+      proxyType: proxy.proxyType,
+      delay: proxy.delay,
+      key: `${u8aToHex(delegateKey)}/${typeIndex}/${proxy.delay}`,
     });
-
-    if (records.length === 0) {
-      console.warn(`CSV file is empty: ${filePath}. Skipping.`);
-      continue;
-    }
-
-    // Check headers
-    const headers = Object.keys(records[0]);
-    for (let i = 0; i < EXPECTED_HEADERS.length; i++) {
-      if (headers[i] !== EXPECTED_HEADERS[i]) {
-        throw new Error(
-          `CSV header mismatch in ${filePath}. Expected "${
-            EXPECTED_HEADERS[i]
-          }", got "${headers[i]}" at column ${i + 1}`
-        );
-      }
-    }
-
-    // Validate rows and populate expectedProxiesFromCsv map
-    for (const [index, row] of records.entries()) {
-      const lineNumber = index + 2; // +2 to account for header row + 1-based index
-
-      const genesis = row["Genesis Account"];
-      const proxy = row["Proxy Account"];
-      const type = row["Proxy Type"];
-      const delay = row["Delay"];
-
-      if (!genesis || !proxy || !type || delay === undefined) {
-        throw new Error(`Missing field(s) in row ${lineNumber} of ${filePath}`);
-      }
-
-      // Validate addresses
-      try {
-        decodeAddress(genesis);
-      } catch {
-        throw new Error(
-          `Invalid Genesis Account address at row ${lineNumber} of ${filePath}`
-        );
-      }
-
-      try {
-        decodeAddress(proxy);
-      } catch {
-        throw new Error(
-          `Invalid Proxy Account address at row ${lineNumber} of ${filePath}`
-        );
-      }
-
-      // Validate Delay is a number (and convert to string for consistent storage)
-      const numericDelay = Number(delay);
-      if (isNaN(numericDelay)) {
-        throw new Error(
-          `Invalid Delay value (not a number) at row ${lineNumber} of ${filePath}`
-        );
-      }
-
-      // Add to our map of expected proxies
-      const proxyConfig: ProxyConfig = {
-        delegate: proxy,
-        proxyType: type,
-        delay: String(numericDelay), // Store delay as string
-      };
-
-      if (!expectedProxiesFromCsv.has(genesis)) {
-        expectedProxiesFromCsv.set(genesis, []);
-      }
-      expectedProxiesFromCsv.get(genesis)!.push(proxyConfig);
-    }
+    expectedProxiesFromCsv.set(u8aToHex(genesisKey), account);
   }
 
-  console.log("\n--- Starting On-Chain Verification ---");
+  log(`\n--- Starting On-Chain Verification at block ${describeBlock(block)} ---`);
 
   // --- Step 2 & 3: Iterate through collected genesis accounts and compare with on-chain data ---
-  for (const [
-    genesisAccount,
-    csvProxyConfigs,
-  ] of expectedProxiesFromCsv.entries()) {
-    console.log(`\nVerifying proxies for Genesis Account: ${genesisAccount}`);
+  const reports: AccountReport[] = [];
+  for (const [genesisKey, { genesis, proxies: csvProxyConfigs }] of expectedProxiesFromCsv.entries()) {
+    const report: AccountReport = { genesis, matched: [], missing: [], unexpected: [] };
+    reports.push(report);
 
     try {
-      const chainProxyResponse = await api.query.proxy.proxies(genesisAccount);
-      const chainProxyDefinitions: PalletProxyProxyDefinition =
-        chainProxyResponse.toHuman() as any;
-
-      const onChainProxies: ProxyConfig[] = [];
+      const [definitions] = (await block.apiAt.query.proxy.proxies(genesisKey)) as any;
 
-      // Extract on-chain proxy configurations into a standardized format
-      if (
-        Array.isArray(chainProxyDefinitions) &&
-        Array.isArray(chainProxyDefinitions[0])
-      ) {
-        for (const config of chainProxyDefinitions[0]) {
-          onChainProxies.push({
-            delegate: config.delegate,
-            proxyType: config.proxyType,
-            delay: String(config.delay), // Ensure delay is string for comparison
-          });
-        }
-      }
+      // Extract on-chain proxy configurations into the same comparable format
+      const onChainProxies: ComparableProxy[] = definitions.map((definition: any) => ({
+        delegate: display(definition.delegate.toU8a()),
+        proxyType: definition.proxyType.type,
+        delay: definition.delay.toNumber(),
+        key: `${u8aToHex(definition.delegate.toU8a())}/${definition.proxyType.index}/${definition.delay.toNumber()}`,
+      }));
+      const strip = ({ key, ...config }: ComparableProxy): ProxyConfig => config;
 
       // --- 3.1: Check if all CSV proxies exist on-chain ---
       for (const csvConfig of csvProxyConfigs) {
-        let matchFound = false;
-        for (const onChainConfig of onChainProxies) {
-          if (
-            onChainConfig.delegate === csvConfig.delegate &&
-            onChainConfig.proxyType === csvConfig.proxyType &&
-            onChainConfig.delay === csvConfig.delay
-          ) {
-            matchFound = true;
-            break;
-          }
-        }
-        if (matchFound) {
-          console.log(
-            `  ✅ CSV proxy found on-chain: Delegate: ${csvConfig.delegate}, Type: ${csvConfig.proxyType}, Delay: ${csvConfig.delay}`
-          );
+        if (onChainProxies.some((onChainConfig) => onChainConfig.key === csvConfig.key)) {
+          report.matched.push(strip(csvConfig));
         } else {
-          console.error(
-            `  ❌ CSV proxy NOT found on-chain: Delegate: ${csvConfig.delegate}, Type: ${csvConfig.proxyType}, Delay: ${csvConfig.delay}`
-          );
+          report.missing.push(strip(csvConfig));
         }
       }
 
       // --- 3.2: Check if all on-chain proxies exist in CSV ---
       for (const onChainConfig of onChainProxies) {
-        let matchFound = false;
-        for (const csvConfig of csvProxyConfigs) {
-          if (
-            csvConfig.delegate === onChainConfig.delegate &&
-            csvConfig.proxyType === onChainConfig.proxyType &&
-            csvConfig.delay === onChainConfig.delay
-          ) {
-            matchFound = true;
-            break;
-          }
-        }
-        if (matchFound) {
-          // This case was already covered by the previous loop, but helps readability if uncommented
-          // console.log(`  ✅ On-chain proxy found in CSV: Delegate: ${onChainConfig.delegate}, Type: ${onChainConfig.proxyType}, Delay: ${onChainConfig.delay}`);
-        } else {
-          console.warn(
-            `  ⚠️ On-chain proxy NOT in CSV config: Delegate: ${onChainConfig.delegate}, Type: ${onChainConfig.proxyType}, Delay: ${onChainConfig.delay}`
-          );
+        if (!csvProxyConfigs.some((csvConfig) => csvConfig.key === onChainConfig.key)) {
+          report.unexpected.push(strip(onChainConfig));
         }
       }
-
-      if (csvProxyConfigs.length === 0 && onChainProxies.length === 0) {
-        console.log(
-          `  No proxies expected and none found on-chain for ${genesisAccount}.`
-        );
-      } else if (csvProxyConfigs.length === 0 && onChainProxies.length > 0) {
-        console.warn(
-          `  ⚠️ No proxies expected in CSV for ${genesisAccount}, but ${onChainProxies.length} found on-chain.`
-        );
-      } else if (csvProxyConfigs.length > 0 && onChainProxies.length === 0) {
-        console.warn(
-          `  ⚠️ Proxies expected in CSV for ${genesisAccount}, but none found on-chain.`
-        );
-      }
     } catch (error) {
-      console.error(
-        `Error querying or verifying proxies for Genesis Account ${genesisAccount}:`,
-        error
-      );
+      report.error = error.message ?? String(error);
     }
   }
+  return reports;
+}
+
+function describe(config: ProxyConfig): string {
+  return `Delegate: ${config.delegate}, Type: ${config.proxyType}, Delay: ${config.delay}`;
+}
+
+function renderText(reports: AccountReport[], fileErrors: FileError[], block: PinnedBlock): string {
+  const lines: string[] = [`Genesis proxy verification at block ${describeBlock(block)}`];
+  for (const { file, error } of fileErrors) {
+    lines.push(`\n❌ Error reading ${file}: ${error}`);
+  }
+  for (const report of reports) {
+    lines.push(`\nVerifying proxies for Genesis Account: ${report.genesis}`);
+    if (report.error) {
+      lines.push(`  ❌ Error querying or verifying proxies: ${report.error}`);
+      continue;
+    }
+    for (const config of report.matched) {
+      lines.push(`  ✅ CSV proxy found on-chain: ${describe(config)}`);
+    }
+    for (const config of report.missing) {
+      lines.push(`  ❌ CSV proxy NOT found on-chain: ${describe(config)}`);
+    }
+    for (const config of report.unexpected) {
+      lines.push(`  ⚠️ On-chain proxy NOT in CSV config: ${describe(config)}`);
+    }
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+function renderMarkdown(
+  reports: AccountReport[],
+  fileErrors: FileError[],
+  block: PinnedBlock,
+  failed: boolean
+): string {
+  const rows: string[][] = fileErrors.map(({ file, error }) => [file, "❌ error", error, "", ""]);
+  for (const report of reports) {
+    if (report.error) {
+      rows.push([report.genesis, "❌ error", report.error, "", ""]);
+    }
+    const add = (status: string, config: ProxyConfig) =>
+      rows.push([report.genesis, status, config.delegate, config.proxyType, String(config.delay)]);
+    report.matched.forEach((config) => add("✅ matched", config));
+    report.missing.forEach((config) => add("❌ missing", config));
+    report.unexpected.forEach((config) => add("⚠️ unexpected", config));
+  }
+  return [
+    `## Genesis proxy verification ${failed ? "❌" : "✅"}`,
+    ``,
+    `Block ${describeBlock(block)}`,
+    ``,
+    renderMarkdownTable(["Genesis Account", "Status", "Delegate", "Proxy Type", "Delay"], rows),
+    ``,
+  ].join("\n");
+}
+
+function renderJunitReport(
+  reports: AccountReport[],
+  fileErrors: FileError[],
+  block: PinnedBlock,
+  strict: boolean
+): string {
+  return renderJunit(`genesis-proxy-verification #${block.number} ${block.hash}`, [
+    ...fileErrors.map(({ file, error }) => ({ name: file, cases: [{ name: "read", failure: error }] })),
+    ...reports.map((report) => ({
+      name: report.genesis,
+      cases: [
+        ...(report.error ? [{ name: "query", failure: report.error }] : []),
+        ...report.matched.map((config) => ({ name: describe(config) })),
+        ...report.missing.map((config) => ({
+          name: describe(config),
+          failure: "CSV proxy not found on-chain",
+        })),
+        ...report.unexpected.map((config) => ({
+          name: describe(config),
+          // Only a failure in --strict mode
+          ...(strict ? { failure: "On-chain proxy not in CSV config" } : {}),
+        })),
+      ],
+    })),
+  ]);
 }
 
 async function main() {
@@ -248,15 +246,69 @@ async function main() {
   const api = await getApiFor(args);
 
   try {
-    // Validate setups
-    await verifyAccounts(api, args["proxy-dir"]);
+    // Validate setups, all against the same block
+    const block = await getApiAt(api, args);
+    const fileErrors: FileError[] = [];
+    const reports = await verifyAccounts(
+      api,
+      block,
+      args["proxy-dir"],
+      args["ss58"] ?? api.registry.chainSS58 ?? 42,
+      fileErrors
+    );
+
+    const strict: boolean = args["strict"];
+    const failed =
+      fileErrors.length > 0 ||
+      reports.some(
+        (report) => !!report.error || report.missing.length > 0 || (strict && report.unexpected.length > 0)
+      );
+    const count = (key: "matched" | "missing" | "unexpected") =>
+      reports.reduce((sum, report) => sum + report[key].length, 0);
+    const summary = {
+      block: { number: block.number, hash: block.hash, source: block.source },
+      accounts: reports.length,
+      matched: count("matched"),
+      missing: count("missing"),
+      unexpected: count("unexpected"),
+      errors: fileErrors.length + reports.filter((report) => !!report.error).length,
+      strict,
+      passed: !failed,
+    };
+
+    switch (args["format"]) {
+      case "json":
+        writeReport(args, `${JSON.stringify({ summary, files: fileErrors, accounts: reports }, null, 2)}\n`);
+        break;
+      case "junit":
+        writeReport(args, renderJunitReport(reports, fileErrors, block, strict));
+        break;
+      case "markdown":
+        writeReport(args, renderMarkdown(reports, fileErrors, block, failed));
+        break;
+      default:
+        writeReport(args, renderText(reports, fileErrors, block));
+        log(
+          `\n${summary.matched} matched, ${summary.missing} missing, ${summary.unexpected} unexpected on-chain` +
+            (summary.errors ? `, ${summary.errors} errors` : "") +
+            (failed ? " ❌" : " ✅")
+        );
+    }
+
+    if (failed) {
+      process.exitCode = summary.errors ? EXIT_ERROR : EXIT_MISMATCH;
+    }
   } catch (error) {
     console.error(error);
+    process.exitCode = EXIT_ERROR;
   } finally {
     await api.disconnect();
   }
 }
 
 main()
-  .catch(console.error)
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = EXIT_ERROR;
+  })
   .finally(() => process.exit());
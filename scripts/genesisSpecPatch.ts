@@ -0,0 +1,211 @@
+import fs from "fs";
+import yargs from "yargs";
+import jsonBg from "json-bigint";
+import { ApiPromise } from "@polkadot/api";
+import { u8aToHex } from "@polkadot/util";
+import { decodeAddress, encodeAddress } from "@polkadot/util-crypto";
+import { NETWORK_YARGS_OPTIONS, getApiFor } from "./utils/network";
+import { TokenInfo, describeAmount, getTokenInfo } from "./utils/amount";
+import { BalanceRow, readBalanceCsv } from "./utils/balances";
+import { ProxyDefinition, getProxyTypes, groupByGenesis, readProxyCsvPath } from "./utils/proxy";
+import "@tanssi/api-augment";
+
+const JSONbig = jsonBg({ useNativeBigInt: true });
+
+// `ExtraFlags` of `AccountData::default()`: accounts created since the
+// balances pallet moved to holds and freezes have this bit set
+const IS_NEW_LOGIC = 0x80000000000000000000000000000000n;
+
+/*
+Builds the genesis balances (and proxies) from the same CSV files that
+genesisBalanceVerification.ts / genesisProxyVerification.ts check after launch.
+
+- Without --spec: writes a genesis patch { balances, proxy } to --output.
+- With a plain spec: merges the patch into genesis.runtimeGenesis.patch
+  (or .config, or the legacy genesis.runtime).
+- With a raw spec: writes System.Account entries and Balances.TotalIssuance
+  into genesis.raw.top. Proxies cannot be written raw.
+
+The connected node (--url / --network) must run the runtime of the spec: its
+metadata gives the storage hashing and encoding, the token decimals, the
+existential deposit and the proxy types. A dev node or Chopsticks will do.
+*/
+
+const args = yargs.options({
+  ...NETWORK_YARGS_OPTIONS,
+  "balances-file": {
+    describe: "CSV file with the genesis balances (Address,Balance[,Reserved])",
+    type: "string",
+    demandOption: true,
+    alias: ["file"],
+  },
+  "proxy-dir": {
+    describe: "CSV file or folder with the genesis proxies",
+    type: "string",
+  },
+  spec: {
+    describe: "Chain spec (plain or raw) to add the genesis to",
+    type: "string",
+  },
+  output: {
+    describe: "Where to write the patch, or the updated chain spec",
+    type: "string",
+    demandOption: true,
+  },
+}).argv as any;
+
+type GenesisPatch = {
+  balances: { balances: [string, bigint][] };
+  proxy?: { proxies: [string, string, string, number][] };
+};
+
+function buildPatch(rows: BalanceRow[], proxies: ProxyDefinition[] | undefined, ss58: number): GenesisPatch {
+  const reserved = rows.find((row) => row.reserved > 0n);
+  if (reserved) {
+    throw new Error(`The balances genesis config has no reserved balance (${reserved.source}), use a raw spec`);
+  }
+  const patch: GenesisPatch = {
+    balances: {
+      balances: rows.map((row) => [encodeAddress(row.address, ss58), row.free]),
+    },
+  };
+  if (proxies) {
+    // Duplicates are dropped, one entry per genesis account, delegate, type and delay
+    patch.proxy = { proxies: [] };
+    for (const account of groupByGenesis(proxies).values()) {
+      for (const proxy of account.values()) {
+        patch.proxy.proxies.push([
+          encodeAddress(proxy.genesis, ss58),
+          encodeAddress(proxy.delegate, ss58),
+          proxy.proxyType,
+          proxy.delay,
+        ]);
+      }
+    }
+  }
+  return patch;
+}
+
+// Object of a plain spec the runtime genesis config lives in
+function plainGenesis(spec: any): any {
+  const genesis = spec.genesis ?? {};
+  const target = genesis.runtimeGenesis?.patch ?? genesis.runtimeGenesis?.config ?? genesis.runtime;
+  if (!target) {
+    throw new Error(`Chain spec has no genesis.runtimeGenesis.patch, genesis.runtimeGenesis.config or genesis.runtime`);
+  }
+  return target;
+}
+
+function mergePatch(spec: any, patch: GenesisPatch) {
+  const target = plainGenesis(spec);
+  const key = (address: string) => u8aToHex(decodeAddress(address));
+
+  target.balances ??= {};
+  target.balances.balances ??= [];
+  const existing = new Set<string>(target.balances.balances.map(([address]: [string]) => key(address)));
+  for (const entry of patch.balances.balances) {
+    if (existing.has(key(entry[0]))) {
+      throw new Error(`${entry[0]} already has a genesis balance in the spec`);
+    }
+    target.balances.balances.push(entry);
+  }
+
+  if (patch.proxy) {
+    target.proxy ??= {};
+    target.proxy.proxies = [...(target.proxy.proxies ?? []), ...patch.proxy.proxies];
+  }
+}
+
+// Writes System.Account entries and recomputes Balances.TotalIssuance over
+// every account of the raw spec
+function mergeRaw(api: ApiPromise, spec: any, rows: BalanceRow[], token: TokenInfo) {
+  const top: Record<string, string> = spec.genesis.raw.top;
+  const account = api.query.system.account;
+  const accountInfoType = api.registry.createLookupType(account.creator.meta.type.asMap.value);
+
+  for (const row of rows) {
+    const storageKey = account.key(row.address);
+    if (top[storageKey] !== undefined) {
+      throw new Error(`${row.address} (${row.source}) already has a System.Account entry in the spec`);
+    }
+    // Same as an account endowed by the balances genesis: one provider, the
+    // default (migrated) flags, and the consumer the pallet holds while funds
+    // are reserved
+    const info = api.registry.createType(accountInfoType, {
+      consumers: row.reserved > 0n ? 1 : 0,
+      providers: 1,
+      data: { free: row.free, reserved: row.reserved, flags: IS_NEW_LOGIC },
+    });
+    top[storageKey] = u8aToHex(info.toU8a());
+  }
+
+  let totalIssuance = 0n;
+  const prefix = account.keyPrefix();
+  for (const [storageKey, value] of Object.entries(top)) {
+    if (storageKey.startsWith(prefix)) {
+      const info = api.registry.createType(accountInfoType, value) as any;
+      totalIssuance += info.data.free.toBigInt() + info.data.reserved.toBigInt();
+    }
+  }
+  top[api.query.balances.totalIssuance.key()] = u8aToHex(
+    api.registry.createType("u128", totalIssuance).toU8a()
+  );
+  console.log(`Balances.TotalIssuance: ${describeAmount(totalIssuance, token)}`);
+}
+
+async function main() {
+  const api = await getApiFor(args);
+
+  try {
+    const token = await getTokenInfo(api);
+    const ss58 = api.registry.chainSS58 ?? 42;
+    const rows = readBalanceCsv(args["balances-file"], token);
+    const unsupported = rows.find((row) => row.unsupported.length);
+    if (unsupported) {
+      throw new Error(`${unsupported.unsupported.join(", ")} cannot be generated, leave it empty (${unsupported.source})`);
+    }
+
+    // Accounts below the existential deposit would not survive genesis
+    const existentialDeposit = (api.consts.balances.existentialDeposit as any).toBigInt();
+    const dust = rows.find((row) => row.free + row.reserved < existentialDeposit);
+    if (dust) {
+      throw new Error(
+        `${dust.address} (${dust.source}) is below the existential deposit of ${describeAmount(existentialDeposit, token)}`
+      );
+    }
+    const total = rows.reduce((sum, row) => sum + row.free + row.reserved, 0n);
+    console.log(`${rows.length} accounts, ${describeAmount(total, token)}`);
+
+    const proxies = args["proxy-dir"] ? readProxyCsvPath(args["proxy-dir"], getProxyTypes(api)) : undefined;
+    if (proxies) {
+      console.log(`${proxies.length} proxies`);
+    }
+
+    if (!args["spec"]) {
+      fs.writeFileSync(args["output"], JSONbig.stringify(buildPatch(rows, proxies, ss58), null, 2));
+      console.log(`Genesis patch written to ${args["output"]}`);
+      return;
+    }
+
+    const spec = JSONbig.parse(fs.readFileSync(args["spec"], "utf8"));
+    if (spec.genesis?.raw) {
+      if (proxies) {
+        throw new Error(`Proxies cannot be written to a raw spec, add them to the plain spec before converting it`);
+      }
+      mergeRaw(api, spec, rows, token);
+    } else {
+      mergePatch(spec, buildPatch(rows, proxies, ss58));
+    }
+    fs.writeFileSync(args["output"], JSONbig.stringify(spec, null, 2));
+    console.log(`Chain spec written to ${args["output"]}`);
+  } finally {
+    await api.disconnect();
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
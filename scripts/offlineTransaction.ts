@@ -0,0 +1,19 @@
+import yargs from "yargs";
+import { hideBin } from "yargs/helpers";
+import { OFFLINE_BROADCAST_COMMAND, OFFLINE_SIGN_COMMAND } from "./utils/offline";
+
+/*
+Signs and broadcasts payloads written with --build by the genesis proxy scripts
+(register-para has the same sign/broadcast subcommands):
+  1. genesisProxyRegistration.ts ... --sender <address> --build payload.json   (online)
+  2. offlineTransaction.ts sign --payload payload.json --keystore key.json       (air-gapped)
+  3. offlineTransaction.ts broadcast --payload payload.signed.json --url ...     (online)
+*/
+
+yargs(hideBin(process.argv))
+  .usage("Usage: $0")
+  .version("1.0.0")
+  .command(OFFLINE_SIGN_COMMAND)
+  .command(OFFLINE_BROADCAST_COMMAND)
+  .demandCommand(1)
+  .parse();
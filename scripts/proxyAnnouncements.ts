@@ -0,0 +1,406 @@
+import yargs from "yargs";
+import { hideBin } from "yargs/helpers";
+import { ApiPromise } from "@polkadot/api";
+import { SubmittableExtrinsic } from "@polkadot/api/types";
+import { u8aToHex } from "@polkadot/util";
+import { blake2AsHex, decodeAddress } from "@polkadot/util-crypto";
+import { NETWORK_YARGS_OPTIONS, getApiFor } from "./utils/network";
+import {
+  EXTRINSIC_YARGS_OPTIONS,
+  ExtrinsicCliArgs,
+  printDryRun,
+  reportOutcome,
+  sendAndTrack,
+} from "./utils/extrinsic";
+import { SIGNER_YARGS_OPTIONS, SignerCliArgs, hasSignerSource, loadSigner } from "./utils/signer";
+import {
+  OFFLINE_BROADCAST_COMMAND,
+  OFFLINE_SIGN_COMMAND,
+  OFFLINE_YARGS_OPTIONS,
+  OfflineCliArgs,
+  writeOfflinePayload,
+} from "./utils/offline";
+import { SIMULATE_YARGS_OPTIONS, SimulateCliArgs, simulateExtrinsic } from "./utils/simulate";
+import { getProxyTypes, normalizeProxyType, readProxyCsvPath } from "./utils/proxy";
+
+/*
+Time-delayed proxies (Delay > 0) cannot dispatch directly: the delegate first
+announces the call hash, and once `Delay` blocks have passed anyone can execute
+the call with proxy.proxyAnnounced.
+  list       pending announcements (proxy.announcements) and when they become executable
+  announce   proxy.announce(real, callHash), signed by the delegate
+  execute    proxy.proxyAnnounced(delegate, real, type, call), once the delay passed
+  remove     proxy.removeAnnouncement(real, callHash), signed by the delegate
+  reject     proxy.rejectAnnouncement(delegate, callHash), signed by the real account
+*/
+
+// Pallets whose events are relevant to the commands below
+const PROXY_EVENT_SECTIONS = ["proxy"];
+
+const SUBMIT_YARGS_OPTIONS = {
+  ...NETWORK_YARGS_OPTIONS,
+  ...EXTRINSIC_YARGS_OPTIONS,
+  ...OFFLINE_YARGS_OPTIONS,
+  ...SIMULATE_YARGS_OPTIONS,
+  ...SIGNER_YARGS_OPTIONS,
+  sender: {
+    describe: "Address signing the extrinsic, with --build or --simulate instead of a key",
+    type: "string" as const,
+  },
+};
+
+type SubmitCliArgs = ExtrinsicCliArgs &
+  OfflineCliArgs &
+  SimulateCliArgs &
+  SignerCliArgs & { sender?: string };
+
+type PendingAnnouncement = {
+  delegate: string;
+  real: string;
+  callHash: string;
+  height: number;
+  // Delegate's proxies for the real account, in on-chain order: without a
+  // forced type, proxyAnnounced uses the first one (pallet's find_proxy)
+  proxies: { proxyType: string; delay: number }[];
+};
+
+// Milliseconds per block, to turn remaining blocks into a rough duration
+function blockTime(api: ApiPromise): number {
+  const babe = api.consts.babe?.expectedBlockTime;
+  if (babe) {
+    return Number(babe.toString());
+  }
+  return Number(api.consts.timestamp.minimumPeriod.toString()) * 2;
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d${hours % 24}h`;
+}
+
+async function fetchAnnouncements(api: ApiPromise, delegates: string[]): Promise<PendingAnnouncement[]> {
+  const results = await api.query.proxy.announcements.multi(delegates);
+  const pending: PendingAnnouncement[] = [];
+  for (const [i, result] of results.entries()) {
+    const [announcements] = result as any;
+    for (const announcement of announcements) {
+      pending.push({
+        delegate: delegates[i],
+        real: announcement.real.toString(),
+        callHash: announcement.callHash.toHex(),
+        height: announcement.height.toNumber(),
+        proxies: [],
+      });
+    }
+  }
+
+  // The delay comes from the real account's proxy definition for the delegate
+  const reals = Array.from(new Set(pending.map((p) => p.real)));
+  const proxies = await api.query.proxy.proxies.multi(reals);
+  for (const p of pending) {
+    const [definitions] = proxies[reals.indexOf(p.real)] as any;
+    p.proxies = definitions
+      .filter((d: any) => u8aToHex(d.delegate.toU8a()) === u8aToHex(decodeAddress(p.delegate)))
+      .map((d: any) => ({ proxyType: d.proxyType.toString(), delay: d.delay.toNumber() }));
+  }
+  return pending;
+}
+
+async function findAnnouncement(
+  api: ApiPromise,
+  delegate: string,
+  real: string,
+  callHash: string
+): Promise<PendingAnnouncement | undefined> {
+  const pending = await fetchAnnouncements(api, [delegate]);
+  const realKey = u8aToHex(decodeAddress(real));
+  return pending.find((p) => p.callHash === callHash && u8aToHex(decodeAddress(p.real)) === realKey);
+}
+
+// Builds the payload with --build, runs it on Chopsticks with --simulate,
+// prints it with --dry-run, or signs, sends and reports it
+async function submit(
+  api: ApiPromise,
+  tx: SubmittableExtrinsic<"promise">,
+  argv: SubmitCliArgs,
+  description: string
+) {
+  if (argv.build) {
+    await writeOfflinePayload(api, tx, argv.sender, argv, description);
+    return;
+  }
+  if (argv.simulate) {
+    const as =
+      argv["simulate-as"] ?? (hasSignerSource(argv) ? (await loadSigner(argv)).address : argv.sender);
+    if (!as) {
+      throw new Error(`--simulate needs a signer, --sender or --simulate-as`);
+    }
+    if (!(await simulateExtrinsic(argv.simulate, tx, as, ["proxy.announcements"]))) {
+      process.exitCode = 1;
+    }
+    return;
+  }
+  const account = await loadSigner(argv);
+  if (argv["dry-run"]) {
+    process.stdout.write(`Dry run of ${description}:\n`);
+    await printDryRun(tx, account.address);
+    return;
+  }
+  process.stdout.write(`Sending ${description}... `);
+  const outcome = await sendAndTrack(api, tx, account, { waitFinalized: argv["wait-finalized"] });
+  if (!reportOutcome(outcome, PROXY_EVENT_SECTIONS)) {
+    process.exitCode = 1;
+  }
+}
+
+// Call hash from --call-hash, or computed from --call
+function resolveCallHash(argv: { call?: string; "call-hash"?: string }): string {
+  if (argv["call-hash"]) {
+    return argv["call-hash"];
+  }
+  if (argv.call) {
+    return blake2AsHex(argv.call);
+  }
+  throw new Error(`Provide --call or --call-hash`);
+}
+
+yargs(hideBin(process.argv))
+  .usage("Usage: $0")
+  .version("1.0.0")
+  .command(
+    "list",
+    "Lists pending announcements of the delegates and when they become executable",
+    (yargs) => {
+      return yargs.options({
+        ...NETWORK_YARGS_OPTIONS,
+        "proxy-file": {
+          describe: "CSV file, or directory of CSV files, whose Proxy Accounts are the delegates",
+          type: "string",
+        },
+        delegate: {
+          describe: "Delegate (proxy) accounts",
+          type: "array",
+          string: true,
+        },
+      });
+    },
+    async (argv) => {
+      const api = await getApiFor(argv);
+      try {
+        const delegates = new Set<string>((argv.delegate ?? []).map(String));
+        if (argv["proxy-file"]) {
+          readProxyCsvPath(argv["proxy-file"], getProxyTypes(api)).forEach((p) => delegates.add(p.delegate));
+        }
+        if (delegates.size === 0) {
+          throw new Error(`Provide --proxy-file or --delegate`);
+        }
+
+        const current = (await api.rpc.chain.getHeader()).number.toNumber();
+        const msPerBlock = blockTime(api);
+        const pending = await fetchAnnouncements(api, Array.from(delegates));
+        process.stdout.write(`${pending.length} pending announcement(s) at block #${current}\n`);
+        for (const p of pending) {
+          process.stdout.write(`\n${p.delegate} for ${p.real}\n`);
+          process.stdout.write(`  Call hash: ${p.callHash}\n`);
+          process.stdout.write(`  Announced: #${p.height}\n`);
+          if (p.proxies.length === 0) {
+            process.stdout.write(`  ⚠️  The delegate is no longer a proxy of the real account\n`);
+            continue;
+          }
+          const { proxyType, delay } = p.proxies[0];
+          const executableAt = p.height + delay;
+          process.stdout.write(`  Proxy:     ${proxyType}, delay ${delay}\n`);
+          if (p.proxies.length > 1) {
+            const others = p.proxies.slice(1).map((proxy) => `${proxy.proxyType} (delay ${proxy.delay})`);
+            process.stdout.write(`  Also:      ${others.join(", ")}, with --force-proxy-type\n`);
+          }
+          if (executableAt <= current) {
+            process.stdout.write(`  Executable since #${executableAt} ✅ (run execute with the call data)\n`);
+          } else {
+            const remaining = executableAt - current;
+            process.stdout.write(
+              `  Executable at #${executableAt}, in ${remaining} blocks (~${formatDuration(remaining * msPerBlock)})\n`
+            );
+          }
+        }
+      } catch (e) {
+        process.stderr.write(`${e.message}\n`);
+        process.exitCode = 1;
+      } finally {
+        await api.disconnect();
+      }
+    }
+  )
+  .command(
+    "announce",
+    "Announces a call of the real account, signed by the delegate",
+    (yargs) => {
+      return yargs
+        .options({
+          ...SUBMIT_YARGS_OPTIONS,
+          real: {
+            describe: "Account the delegate acts for",
+            type: "string",
+          },
+          call: {
+            describe: "Call data (hex) to announce",
+            type: "string",
+          },
+          "call-hash": {
+            describe: "Hash of the call to announce, instead of --call",
+            type: "string",
+          },
+        })
+        .demandOption(["real"]);
+    },
+    async (argv) => {
+      const api = await getApiFor(argv);
+      try {
+        const callHash = resolveCallHash(argv);
+        process.stdout.write(`Call hash: ${callHash}\n`);
+        await submit(api, api.tx.proxy.announce(argv.real, callHash), argv, "announcement");
+      } catch (e) {
+        process.stderr.write(`${e.message}\n`);
+        process.exitCode = 1;
+      } finally {
+        await api.disconnect();
+      }
+    }
+  )
+  .command(
+    "execute",
+    "Executes an announced call once its delay has passed (any account can sign)",
+    (yargs) => {
+      return yargs
+        .options({
+          ...SUBMIT_YARGS_OPTIONS,
+          delegate: {
+            describe: "Delegate that announced the call",
+            type: "string",
+          },
+          real: {
+            describe: "Account the call is dispatched for",
+            type: "string",
+          },
+          call: {
+            describe: "Call data (hex) matching the announced hash",
+            type: "string",
+          },
+          "force-proxy-type": {
+            describe: "Proxy type to use, when the delegate has several",
+            type: "string",
+          },
+        })
+        .demandOption(["delegate", "real", "call"]);
+    },
+    async (argv) => {
+      const api = await getApiFor(argv);
+      try {
+        const call = api.createType("Call", argv.call);
+        const callHash = blake2AsHex(call.toU8a());
+        const announcement = await findAnnouncement(api, argv.delegate, argv.real, callHash);
+        if (!announcement) {
+          throw new Error(`No announcement of ${callHash} by ${argv.delegate} for ${argv.real}`);
+        }
+        const forceType = argv["force-proxy-type"]
+          ? normalizeProxyType(argv["force-proxy-type"], getProxyTypes(api))
+          : undefined;
+        const proxy = announcement.proxies.find((p) => !forceType || p.proxyType === forceType);
+        if (!proxy) {
+          throw new Error(`${argv.delegate} is not a ${forceType ? `${forceType} ` : ""}proxy of ${argv.real}`);
+        }
+        const current = (await api.rpc.chain.getHeader()).number.toNumber();
+        const executableAt = announcement.height + proxy.delay;
+        if (executableAt > current) {
+          throw new Error(
+            `Not executable yet: announced at #${announcement.height} with delay ${proxy.delay}, executable at #${executableAt} (current #${current})`
+          );
+        }
+        process.stdout.write(`${call.section}.${call.method} announced at #${announcement.height}, executable since #${executableAt}\n`);
+        const tx = api.tx.proxy.proxyAnnounced(argv.delegate, argv.real, forceType ?? null, call);
+        await submit(api, tx, argv, "announced call");
+      } catch (e) {
+        process.stderr.write(`${e.message}\n`);
+        process.exitCode = 1;
+      } finally {
+        await api.disconnect();
+      }
+    }
+  )
+  .command(
+    "remove",
+    "Removes an announcement, signed by the delegate (returns its deposit)",
+    (yargs) => {
+      return yargs
+        .options({
+          ...SUBMIT_YARGS_OPTIONS,
+          real: {
+            describe: "Account the announcement was made for",
+            type: "string",
+          },
+          call: {
+            describe: "Announced call data (hex)",
+            type: "string",
+          },
+          "call-hash": {
+            describe: "Announced call hash, instead of --call",
+            type: "string",
+          },
+        })
+        .demandOption(["real"]);
+    },
+    async (argv) => {
+      const api = await getApiFor(argv);
+      try {
+        const tx = api.tx.proxy.removeAnnouncement(argv.real, resolveCallHash(argv));
+        await submit(api, tx, argv, "announcement removal");
+      } catch (e) {
+        process.stderr.write(`${e.message}\n`);
+        process.exitCode = 1;
+      } finally {
+        await api.disconnect();
+      }
+    }
+  )
+  .command(
+    "reject",
+    "Rejects an announcement of a delegate, signed by the real account",
+    (yargs) => {
+      return yargs
+        .options({
+          ...SUBMIT_YARGS_OPTIONS,
+          delegate: {
+            describe: "Delegate that announced the call",
+            type: "string",
+          },
+          call: {
+            describe: "Announced call data (hex)",
+            type: "string",
+          },
+          "call-hash": {
+            describe: "Announced call hash, instead of --call",
+            type: "string",
+          },
+        })
+        .demandOption(["delegate"]);
+    },
+    async (argv) => {
+      const api = await getApiFor(argv);
+      try {
+        const tx = api.tx.proxy.rejectAnnouncement(argv.delegate, resolveCallHash(argv));
+        await submit(api, tx, argv, "announcement rejection");
+      } catch (e) {
+        process.stderr.write(`${e.message}\n`);
+        process.exitCode = 1;
+      } finally {
+        await api.disconnect();
+      }
+    }
+  )
+  .command(OFFLINE_SIGN_COMMAND)
+  .command(OFFLINE_BROADCAST_COMMAND)
+  .demandCommand(1)
+  .parse();
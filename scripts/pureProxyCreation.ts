@@ -0,0 +1,276 @@
+#!/usr/bin/env ts-node
+
+import yargs from "yargs";
+import { hideBin } from "yargs/helpers";
+import { NETWORK_YARGS_OPTIONS, getApiFor } from "./utils/network";
+import {
+  ORIGIN_YARGS_OPTIONS,
+  OriginCliArgs,
+  asRoot,
+  printGovernanceDetails,
+  printMultisigDetails,
+  printOriginCall,
+  sendOriginCall,
+  wrapForOrigin,
+} from "./utils/origin";
+import { EXTRINSIC_YARGS_OPTIONS, ExtrinsicCliArgs } from "./utils/extrinsic";
+import { SIGNER_YARGS_OPTIONS, SignerCliArgs, hasSignerSource, loadSigner } from "./utils/signer";
+import { OFFLINE_YARGS_OPTIONS, OfflineCliArgs, writeOfflinePayload } from "./utils/offline";
+import { SIMULATE_YARGS_OPTIONS, SimulateCliArgs, simulateOriginCall } from "./utils/simulate";
+import { getProxyTypes, normalizeProxyType } from "./utils/proxy";
+import fs from "fs";
+import { u8aToHex } from "@polkadot/util";
+import { decodeAddress } from "@polkadot/util-crypto";
+import { parse } from "csv-parse/sync";
+
+/**
+ * Creates pure proxies (proxy.createPure) for the spawners of a CSV file and
+ * writes the created accounts back in the genesis proxy format, so they can be
+ * fed to genesisProxyRegistration.ts / genesisProxyVerification.ts.
+ *
+ * INPUT CSV FORMAT (strict headers & order):
+ * Spawner,Proxy Type,Delay,Index
+ *
+ * OUTPUT CSV FORMAT:
+ * Genesis Account,Proxy Account,Proxy Type,Delay
+ * (Genesis Account is the pure proxy, Proxy Account the spawner controlling it)
+ *
+ * Each createPure is dispatched as its spawner (utility.dispatchAs, root only).
+ * When the batch is executed later (multisig, governance), read the created
+ * accounts from the executing block with --events-from <block hash>.
+ */
+
+type PureRow = {
+  spawner: string;
+  proxyType: string;
+  delay: number;
+  index: number;
+  source: string;
+};
+
+type CreatedPure = {
+  pure: string;
+  spawner: string;
+  proxyType: string;
+  index: number;
+};
+
+const args = yargs(hideBin(process.argv))
+  .options({
+    ...NETWORK_YARGS_OPTIONS,
+    ...ORIGIN_YARGS_OPTIONS,
+    ...SIGNER_YARGS_OPTIONS,
+    ...EXTRINSIC_YARGS_OPTIONS,
+    ...OFFLINE_YARGS_OPTIONS,
+    ...SIMULATE_YARGS_OPTIONS,
+    "pure-file": {
+      describe: "CSV file with the pure proxies to create (Spawner,Proxy Type,Delay,Index)",
+      type: "string",
+      demandOption: true,
+      coerce: (arg: string) => {
+        if (!fs.existsSync(arg)) throw new Error(`Pure proxy file not found: ${arg}`);
+        return arg;
+      },
+    },
+    output: {
+      describe: "CSV file the created pure proxies are written to (defaults to <pure-file>_created.csv)",
+      type: "string",
+    },
+    "events-from": {
+      describe: "Read the PureCreated events of this block instead of creating (after a multisig or referendum executed the batch)",
+      type: "string",
+    },
+  })
+  .strict()
+  .argv as unknown as {
+  ["pure-file"]: string;
+  output?: string;
+  ["events-from"]?: string;
+} & OriginCliArgs & SignerCliArgs & ExtrinsicCliArgs & OfflineCliArgs & SimulateCliArgs & Record<string, any>;
+
+// Pallets whose events are relevant when submitting the batch
+const PROXY_EVENT_SECTIONS = ["proxy", "multisig", "preimage", "referenda"];
+
+const EXPECTED_HEADERS = ["Spawner", "Proxy Type", "Delay", "Index"];
+
+function readPureCsv(filePath: string, proxyTypes: string[]): PureRow[] {
+  const content = fs.readFileSync(filePath, "utf-8");
+  const records: Record<string, string>[] = parse(content, {
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+  });
+
+  if (records.length === 0) {
+    throw new Error(`CSV file "${filePath}" is empty.`);
+  }
+
+  // Check headers & order
+  const headers = Object.keys(records[0]);
+  for (let i = 0; i < EXPECTED_HEADERS.length; i++) {
+    if (headers[i] !== EXPECTED_HEADERS[i]) {
+      throw new Error(
+        `CSV header mismatch in "${filePath}". Expected "${EXPECTED_HEADERS[i]}", got "${headers[i]}" at column ${i + 1}.`
+      );
+    }
+  }
+
+  const seen = new Set<string>();
+  return records.map((row, i) => {
+    const lineNumber = i + 2; // header is line 1
+    const spawner = row["Spawner"];
+    try {
+      decodeAddress(spawner);
+    } catch {
+      throw new Error(`Invalid Spawner address at row ${lineNumber} (${filePath}).`);
+    }
+    let proxyType: string;
+    try {
+      proxyType = normalizeProxyType(row["Proxy Type"], proxyTypes);
+    } catch (e) {
+      throw new Error(`${e.message} (row ${lineNumber}, ${filePath}).`);
+    }
+    const delay = Number(row["Delay"]);
+    const index = Number(row["Index"]);
+    if (!Number.isInteger(delay) || delay < 0) {
+      throw new Error(`Invalid Delay value (must be a non-negative integer) at row ${lineNumber} (${filePath}).`);
+    }
+    if (!Number.isInteger(index) || index < 0 || index > 0xffff) {
+      throw new Error(`Invalid Index value (must be an integer from 0 to 65535) at row ${lineNumber} (${filePath}).`);
+    }
+
+    // The same spawner, type and index in one extrinsic would derive the same account
+    const key = `${u8aToHex(decodeAddress(spawner))}/${proxyType}/${index}`;
+    if (seen.has(key)) {
+      throw new Error(`Duplicate Spawner, Proxy Type and Index at row ${lineNumber} (${filePath}).`);
+    }
+    seen.add(key);
+
+    return { spawner, proxyType, delay, index, source: `${filePath}:${lineNumber}` };
+  });
+}
+
+function collectPureCreated(events: any[]): CreatedPure[] {
+  return events
+    .filter(({ event }) => event.section === "proxy" && event.method === "PureCreated")
+    .map(({ event }) => {
+      const [pure, who, proxyType, index] = event.data;
+      return {
+        pure: pure.toString(),
+        spawner: who.toString(),
+        proxyType: proxyType.toString(),
+        index: index.toNumber(),
+      };
+    });
+}
+
+// Writes the created accounts in the genesis proxy format. The delay is not
+// part of the event, it is taken from the matching input row.
+function writeCreatedCsv(file: string, rows: PureRow[], created: CreatedPure[]) {
+  const lines = ["Genesis Account,Proxy Account,Proxy Type,Delay"];
+  for (const pure of created) {
+    const row = rows.find(
+      (r) =>
+        u8aToHex(decodeAddress(r.spawner)) === u8aToHex(decodeAddress(pure.spawner)) &&
+        r.proxyType === pure.proxyType &&
+        r.index === pure.index
+    );
+    if (!row) {
+      console.log(`Ignoring ${pure.pure}: spawner ${pure.spawner} ${pure.proxyType} #${pure.index} is not in the input`);
+      continue;
+    }
+    lines.push([pure.pure, row.spawner, pure.proxyType, row.delay].join(","));
+  }
+  fs.writeFileSync(file, `${lines.join("\n")}\n`);
+  console.log(`\n${lines.length - 1}/${rows.length} pure proxies written to ${file}`);
+  if (lines.length - 1 < rows.length) {
+    process.exitCode = 1;
+  }
+}
+
+async function main() {
+  // API
+  const api = await getApiFor(args);
+  await api.isReady;
+
+  const rows = readPureCsv(args["pure-file"], getProxyTypes(api));
+  const output = args["output"] ?? args["pure-file"].replace(/(\.csv)?$/i, "_created.csv");
+
+  // Only collect what an earlier execution created
+  if (args["events-from"]) {
+    const apiAt = await api.at(args["events-from"]);
+    const events = (await apiAt.query.system.events()) as any;
+    writeCreatedCsv(output, rows, collectPureCreated(Array.from(events)));
+    await api.disconnect();
+    return;
+  }
+
+  // Optional signer: without it the final tx is only printed (or written with --build)
+  const signer = hasSignerSource(args) && !args["build"] ? await loadSigner(args) : undefined;
+
+  // One createPure per row, dispatched as its spawner
+  const calls = rows.map((row) =>
+    api.tx.utility.dispatchAs(
+      { system: { Signed: row.spawner } },
+      api.tx.proxy.createPure(row.proxyType, row.delay, row.index)
+    )
+  );
+  const batchTx = api.tx.utility.batchAll(calls);
+
+  // Wrap the batch inside sudo (or leave it for the referendum under governance)
+  const finalTx = asRoot(api, batchTx, args);
+  console.log(`\n--- FINAL TX HEX ---`);
+  console.log(finalTx.method.toHex());
+
+  // Wrap for the account actually submitting it (proxy and/or multisig)
+  const originCall = await wrapForOrigin(api, finalTx, args, signer?.address);
+  if (args["origin"] !== "sudo") {
+    const { tx: originTx, multisig, governance } = originCall;
+    console.log(`\n--- ${args["origin"].toUpperCase()} TX HEX ---`);
+    console.log(originTx.method.toHex());
+    if (multisig) {
+      printMultisigDetails(multisig);
+    }
+    if (governance) {
+      printGovernanceDetails(governance);
+    }
+  }
+
+  // Write it for offline signing, or submit it when a signer is given
+  if (args["build"]) {
+    console.log(`\n--- OFFLINE PAYLOAD ---`);
+    await writeOfflinePayload(api, originCall.tx, args["sender"], args, "pure proxy creation");
+  } else if (args["simulate"]) {
+    console.log(`\n--- SIMULATION ---`);
+    const sender = signer?.address ?? args["sender"];
+    if (!(await simulateOriginCall(api, finalTx, originCall, args, sender, ["proxy.proxies"]))) {
+      process.exitCode = 1;
+    }
+  } else if (signer && args["dry-run"]) {
+    console.log(`\n--- DRY RUN as ${signer.address} ---`);
+    await printOriginCall(originCall, signer.address);
+  } else if (signer) {
+    console.log(`\n--- SUBMITTING as ${signer.address} ---`);
+    let created: CreatedPure[] = [];
+    const ok = await sendOriginCall(api, originCall, signer, args, PROXY_EVENT_SECTIONS, (outcome) => {
+      created = collectPureCreated(outcome.events);
+    });
+    if (!ok) {
+      process.exitCode = 1;
+    } else if (created.length) {
+      writeCreatedCsv(output, rows, created);
+    } else {
+      // Multisig approval or referendum: nothing executed yet
+      console.log(`\nNo pure proxy created yet. Once executed, run again with --events-from <block hash>.`);
+    }
+  }
+
+  await api.disconnect();
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
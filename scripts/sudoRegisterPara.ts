@@ -1,13 +1,100 @@
 import fs from "fs/promises";
 import yargs from "yargs";
-import { Keyring } from "@polkadot/api";
 import { KeyringPair } from "@polkadot/keyring/types";
 import { hideBin } from "yargs/helpers";
 import jsonBg from "json-bigint";
 import { chainSpecToContainerChainGenesisData } from "../util/genesis_data";
 import { NETWORK_YARGS_OPTIONS, getApiFor } from "./utils/network";
+import { buildRegisterCalls, resolveBootNodes, resolveRegistrar } from "./utils/registrar";
+import {
+    ORIGIN_YARGS_OPTIONS,
+    OriginCliArgs,
+    asRoot,
+    printOriginCall,
+    sendOriginCall,
+    wrapForOrigin,
+} from "./utils/origin";
+import { EXTRINSIC_YARGS_OPTIONS, ExtrinsicCliArgs } from "./utils/extrinsic";
+import { SIGNER_YARGS_OPTIONS, SignerCliArgs, hasSignerSource, loadSigner } from "./utils/signer";
+import {
+    OFFLINE_BROADCAST_COMMAND,
+    OFFLINE_SIGN_COMMAND,
+    OFFLINE_YARGS_OPTIONS,
+    OfflineCliArgs,
+    writeOfflinePayload,
+} from "./utils/offline";
+import { SIMULATE_YARGS_OPTIONS, SimulateCliArgs, simulateOriginCall } from "./utils/simulate";
+import { ApiPromise } from "@polkadot/api";
+import { SubmittableExtrinsic } from "@polkadot/api/types";
 const JSONbig = jsonBg({ useNativeBigInt: true });
 
+// Pallets whose events are relevant to the outcome of the commands below
+const REGISTRAR_EVENT_SECTIONS = [
+    "registrar",
+    "containerRegistrar",
+    "dataPreservers",
+    "paras",
+    "multisig",
+    "preimage",
+    "referenda",
+];
+
+// The signing key is not needed (and usually not available) when only building
+// an offline payload: the --sender address is used instead. Simulations only
+// need it to know which account to fake-sign as.
+async function loadAccount(argv: SignerCliArgs & OfflineCliArgs & SimulateCliArgs): Promise<KeyringPair | undefined> {
+    if (argv.build || (argv.simulate && !hasSignerSource(argv))) {
+        return undefined;
+    }
+    return loadSigner(argv);
+}
+
+// Wraps the extrinsic for the selected --origin, sends it, waits for its inclusion
+// and reports the result. Sets a non-zero exit code if the extrinsic (or any
+// wrapped call) failed. With --dry-run the call is only printed, with --build
+// the unsigned payload is written for offline signing and with --simulate it is
+// run on a Chopsticks fork.
+async function submitAndReport(
+    api: ApiPromise,
+    call: SubmittableExtrinsic<"promise">,
+    account: KeyringPair | undefined,
+    argv: ExtrinsicCliArgs & OriginCliArgs & OfflineCliArgs & SimulateCliArgs,
+    description = "transaction"
+) {
+    const address = account?.address ?? argv.sender;
+    const originCall = await wrapForOrigin(api, call, argv, address);
+    if (argv.origin && argv.origin !== "sudo") {
+        description = `${description} through ${argv.origin}`;
+    }
+    if (argv.build) {
+        await writeOfflinePayload(api, originCall.tx, address, argv, description);
+        return;
+    }
+    if (argv.simulate) {
+        const registrar = resolveRegistrar(api).name;
+        const storage = [`${registrar}.registeredParaIds`, `${registrar}.pendingVerification`];
+        if (!(await simulateOriginCall(api, call, originCall, argv, address, storage))) {
+            process.exitCode = 1;
+        }
+        return;
+    }
+    if (argv["dry-run"]) {
+        process.stdout.write(`Dry run of ${description}:\n`);
+        await printOriginCall(originCall, address);
+        return;
+    }
+    process.stdout.write(`Sending ${description}... `);
+    try {
+        if (!(await sendOriginCall(api, originCall, account, argv, REGISTRAR_EVENT_SECTIONS))) {
+            process.exitCode = 1;
+        }
+    } catch (e) {
+        process.stdout.write(`Failed ❌\n`);
+        process.stderr.write(`${e.message}\n`);
+        process.exitCode = 1;
+    }
+}
+
 yargs(hideBin(process.argv))
   .usage("Usage: $0")
   .version("1.0.0")
@@ -18,53 +105,59 @@ yargs(hideBin(process.argv))
       return yargs
         .options({
             ...NETWORK_YARGS_OPTIONS,
-            "account-priv-key": {
-                type: "string",
-                demandOption: false,
-                alias: "account",
-            },
+            ...EXTRINSIC_YARGS_OPTIONS,
+            ...ORIGIN_YARGS_OPTIONS,
+            ...OFFLINE_YARGS_OPTIONS,
+            ...SIMULATE_YARGS_OPTIONS,
+            ...SIGNER_YARGS_OPTIONS,
             "chain": {
                 describe: "Input path of raw chainSpec file",
                 type: "string",
             }
         })
-        .demandOption(["chain", "account-priv-key"]);
+        .demandOption(["chain"]);
     },
     async (argv) => {
+        if (argv.origin === "governance") {
+            // register is a signed call (it reserves a deposit), it cannot be dispatched by a referendum
+            process.stderr.write(`registerForCollation cannot be submitted with --origin governance\n`);
+            process.exitCode = 1;
+            return;
+        }
         const api = await getApiFor(argv);
-        const keyring = new Keyring({ type: 'sr25519' });
 
         try {
             process.stdout.write(`Reading chainSpec from: ${argv.chain}\n`);
             const rawSpec = JSONbig.parse(await fs.readFile(argv.chain!, "utf8"));
     
-            let account: KeyringPair;
-            const privKey = argv["account-priv-key"];
-            account = keyring.addFromUri(privKey);
+            const account = await loadAccount(argv);
 
+            const registrar = resolveRegistrar(api);
             const containerChainGenesisData = chainSpecToContainerChainGenesisData(api, rawSpec);
-            const txs = [];
-            const tx1 = api.tx.registrar.register(rawSpec.para_id, containerChainGenesisData);
-            txs.push(tx1);
+            const { privileged, register } = await buildRegisterCalls(api, registrar, rawSpec.para_id, containerChainGenesisData, rawSpec);
+            const txs = privileged.map((tx) => api.tx.sudo.sudo(tx));
+            const steps = privileged.map((tx) => `${tx.method.section}.${tx.method.method}`);
+            txs.push(register);
+            steps.push("register");
             if (rawSpec.bootNodes?.length) {
-                const tx2 = api.tx.registrar.setBootNodes(rawSpec.para_id, rawSpec.bootNodes);
-                const tx2s = api.tx.sudo.sudo(tx2);
-                txs.push(tx2s);
+                const bootNodesPallet = resolveBootNodes(api, registrar);
+                if (bootNodesPallet) {
+                    const tx2 = bootNodesPallet.tx.setBootNodes(rawSpec.para_id, rawSpec.bootNodes);
+                    const tx2s = api.tx.sudo.sudo(tx2);
+                    txs.push(tx2s);
+                    steps.push("setBootNodes");
+                } else {
+                    process.stdout.write(`Runtime does not store bootnodes on-chain, skipping setBootNodes\n`);
+                }
             }
-            const tx3 = api.tx.registrar.markValidForCollating(rawSpec.para_id);
+            const tx3 = registrar.tx.markValidForCollating(rawSpec.para_id);
             const tx3s = api.tx.sudo.sudo(tx3);
             txs.push(tx3s);
+            steps.push("markValidForCollating");
 
-            if (txs.length == 2) {
-                process.stdout.write(`Sending register transaction (register + markValidForCollating)... `);
-            } else {
-                process.stdout.write(`Sending register transaction (register + setBootNodes + markValidForCollating)... `);
-            }
+            const description = `register transaction (${steps.join(" + ")})`;
             const txBatch = api.tx.utility.batchAll(txs);
-            const txHash = await txBatch.signAndSend(account);
-            process.stdout.write(`${txHash.toHex()}\n`);
-            // TODO: this will always print Done, even if the extrinsic has failed
-            process.stdout.write(`Done ✅\n`);
+            await submitAndReport(api, txBatch, account, argv, description);
         } finally {
             await api.disconnect();
         }
@@ -77,39 +170,40 @@ yargs(hideBin(process.argv))
       return yargs
         .options({
             ...NETWORK_YARGS_OPTIONS,
-            "account-priv-key": {
-                type: "string",
-                demandOption: false,
-                alias: "account",
-            },
+            ...EXTRINSIC_YARGS_OPTIONS,
+            ...ORIGIN_YARGS_OPTIONS,
+            ...OFFLINE_YARGS_OPTIONS,
+            ...SIMULATE_YARGS_OPTIONS,
+            ...SIGNER_YARGS_OPTIONS,
             "chain": {
                 describe: "Input path of raw chainSpec file",
                 type: "string",
             }
         })
-        .demandOption(["chain", "account-priv-key"]);
+        .demandOption(["chain"]);
     },
     async (argv) => {
+        if (argv.origin === "governance") {
+            // register is a signed call (it reserves a deposit), it cannot be dispatched by a referendum
+            process.stderr.write(`register cannot be submitted with --origin governance\n`);
+            process.exitCode = 1;
+            return;
+        }
         const api = await getApiFor(argv);
-        const keyring = new Keyring({ type: 'sr25519' });
 
         try {
             process.stdout.write(`Reading chainSpec from: ${argv.chain}\n`);
             const rawSpec = JSONbig.parse(await fs.readFile(argv.chain!, "utf8"));
     
-            let account: KeyringPair;
-            const privKey = argv["account-priv-key"];
-            account = keyring.addFromUri(privKey);
+            const account = await loadAccount(argv);
 
+            const registrar = resolveRegistrar(api);
             const containerChainGenesisData = chainSpecToContainerChainGenesisData(api, rawSpec);
-            const txs = [];
-            const tx1 = api.tx.registrar.register(rawSpec.para_id, containerChainGenesisData);
-            txs.push(tx1);
+            const { privileged, register } = await buildRegisterCalls(api, registrar, rawSpec.para_id, containerChainGenesisData, rawSpec);
+            const txs = privileged.map((tx) => api.tx.sudo.sudo(tx));
+            txs.push(register);
             const txBatch = api.tx.utility.batchAll(txs);
-            const txHash = await txBatch.signAndSend(account);
-            process.stdout.write(`${txHash.toHex()}\n`);
-            // TODO: this will always print Done, even if the extrinsic has failed
-            process.stdout.write(`Done ✅\n`);
+            await submitAndReport(api, txBatch, account, argv, `register transaction`);
         } finally {
             await api.disconnect();
         }
@@ -122,34 +216,28 @@ yargs(hideBin(process.argv))
       return yargs
         .options({
             ...NETWORK_YARGS_OPTIONS,
-            "account-priv-key": {
-                type: "string",
-                demandOption: false,
-                alias: "account",
-            },
+            ...EXTRINSIC_YARGS_OPTIONS,
+            ...ORIGIN_YARGS_OPTIONS,
+            ...OFFLINE_YARGS_OPTIONS,
+            ...SIMULATE_YARGS_OPTIONS,
+            ...SIGNER_YARGS_OPTIONS,
             "para-id": {
                 describe: "Container chain para id",
                 type: "number",
             }
         })
-        .demandOption(["para-id", "account-priv-key"]);
+        .demandOption(["para-id"]);
     },
     async (argv) => {
         const api = await getApiFor(argv);
-        const keyring = new Keyring({ type: 'sr25519' });
 
         try {    
-            let account: KeyringPair;
-            const privKey = argv["account-priv-key"];
-            account = keyring.addFromUri(privKey);
+            const account = await loadAccount(argv);
 
-            let tx = api.tx.registrar.markValidForCollating(argv.paraId);
-            tx = api.tx.sudo.sudo(tx);
-            process.stdout.write(`Sending transaction... `);
-            const txHash = await tx.signAndSend(account);
-            process.stdout.write(`${txHash.toHex()}\n`);
-            // TODO: this will always print Done, even if the extrinsic has failed
-            process.stdout.write(`Done ✅\n`);
+            const registrar = resolveRegistrar(api);
+            let tx = registrar.tx.markValidForCollating(argv.paraId);
+            tx = asRoot(api, tx, argv);
+            await submitAndReport(api, tx, account, argv);
         } finally {
             await api.disconnect();
         }
@@ -162,11 +250,11 @@ yargs(hideBin(process.argv))
       return yargs
         .options({
             ...NETWORK_YARGS_OPTIONS,
-            "account-priv-key": {
-                type: "string",
-                demandOption: false,
-                alias: "account",
-            },
+            ...EXTRINSIC_YARGS_OPTIONS,
+            ...ORIGIN_YARGS_OPTIONS,
+            ...OFFLINE_YARGS_OPTIONS,
+            ...SIMULATE_YARGS_OPTIONS,
+            ...SIGNER_YARGS_OPTIONS,
             "para-id": {
                 describe: "Container chain para id",
                 type: "number",
@@ -184,21 +272,24 @@ yargs(hideBin(process.argv))
                 type: "boolean",
             },
         })
-        .demandOption(["para-id", "account-priv-key"]);
+        .demandOption(["para-id"]);
     },
     async (argv) => {
         const api = await getApiFor(argv as any);
-        const keyring = new Keyring({ type: 'sr25519' });
 
         try {    
-            let account: KeyringPair;
-            const privKey = argv["account-priv-key"];
-            account = keyring.addFromUri(privKey);
+            const account = await loadAccount(argv);
+
+            const registrar = resolveRegistrar(api);
+            const bootNodesPallet = resolveBootNodes(api, registrar);
+            if (!bootNodesPallet) {
+                throw new Error(`Runtime ${api.runtimeVersion.specName.toString()} does not store bootnodes on-chain`);
+            }
 
             let bootnodes = [];
             if (argv.keepExisting) {
                 // Read existing bootnodes
-                const onChainBootnodes = await api.query.dataPreservers.bootNodes(argv.paraId) as any;
+                const onChainBootnodes = await bootNodesPallet.query.bootNodes(argv.paraId) as any;
                 bootnodes = [...bootnodes, ...onChainBootnodes];
             }
             if (!argv.bootnode) {
@@ -206,16 +297,16 @@ yargs(hideBin(process.argv))
             }
             bootnodes = [...bootnodes, ...argv.bootnode];
 
-            let tx1 = api.tx.dataPreservers.setBootNodes(argv.paraId, bootnodes);
-            let tx1s = api.tx.sudo.sudo(tx1);
+            let tx1 = bootNodesPallet.tx.setBootNodes(argv.paraId, bootnodes);
+            let tx1s = asRoot(api, tx1, argv);
             let tx2s = null;
             if (argv.markValidForCollating) {
                 // Check if not already valid, and only in that case call markValidForCollating
-                const notValidParas = await api.query.registrar.pendingVerification() as any;
+                const notValidParas = await registrar.query.pendingVerification() as any;
                 if (notValidParas.toJSON().includes(argv.paraId)) {
                     process.stdout.write(`Will set container chain valid for collating\n`);
-                    let tx2 = api.tx.registrar.markValidForCollating(argv.paraId);
-                    tx2s = api.tx.sudo.sudo(tx2);
+                    let tx2 = registrar.tx.markValidForCollating(argv.paraId);
+                    tx2s = asRoot(api, tx2, argv);
                 } else {
                     // ParaId already valid, or not registered at all
                     process.stdout.write(`Not setting container chain valid for collating\n`);
@@ -227,11 +318,7 @@ yargs(hideBin(process.argv))
             } else {
                 tx = tx1s;
             }
-            process.stdout.write(`Sending transaction... `);
-            const txHash = await tx.signAndSend(account);
-            process.stdout.write(`${txHash.toHex()}\n`);
-            // TODO: this will always print Done, even if the extrinsic has failed
-            process.stdout.write(`Done ✅\n`);
+            await submitAndReport(api, tx, account, argv);
         } finally {
             await api.disconnect();
         }
@@ -244,37 +331,33 @@ yargs(hideBin(process.argv))
       return yargs
         .options({
             ...NETWORK_YARGS_OPTIONS,
-            "account-priv-key": {
-                type: "string",
-                demandOption: false,
-                alias: "account",
-            },
+            ...EXTRINSIC_YARGS_OPTIONS,
+            ...ORIGIN_YARGS_OPTIONS,
+            ...OFFLINE_YARGS_OPTIONS,
+            ...SIMULATE_YARGS_OPTIONS,
+            ...SIGNER_YARGS_OPTIONS,
             "para-id": {
                 describe: "Container chain para id",
                 type: "number",
             },
         })
-        .demandOption(["para-id", "account-priv-key"]);
+        .demandOption(["para-id"]);
     },
     async (argv) => {
         const api = await getApiFor(argv as any);
-        const keyring = new Keyring({ type: 'sr25519' });
 
         try {    
-            let account: KeyringPair;
-            const privKey = argv["account-priv-key"];
-            account = keyring.addFromUri(privKey);
+            const account = await loadAccount(argv);
 
-            let tx = api.tx.registrar.deregister(argv.paraId);
-            tx = api.tx.sudo.sudo(tx);
-            process.stdout.write(`Sending transaction... `);
-            const txHash = await tx.signAndSend(account);
-            process.stdout.write(`${txHash.toHex()}\n`);
-            // TODO: this will always print Done, even if the extrinsic has failed
-            process.stdout.write(`Done ✅\n`);
+            const registrar = resolveRegistrar(api);
+            let tx = registrar.tx.deregister(argv.paraId);
+            tx = asRoot(api, tx, argv);
+            await submitAndReport(api, tx, account, argv);
         } finally {
             await api.disconnect();
         }
     }
   )
+  .command(OFFLINE_SIGN_COMMAND)
+  .command(OFFLINE_BROADCAST_COMMAND)
   .parse();
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { u8aToHex } from "@polkadot/util";
+import { base58Decode, checkAddressChecksum, decodeAddress } from "@polkadot/util-crypto";
+
+// Addresses are compared by public key, whatever their SS58 encoding
+export function publicKeyOf(address: string): string {
+  return u8aToHex(decodeAddress(address));
+}
+
+// SS58 prefix an address was encoded with (undefined for hex public keys)
+export function ss58PrefixOf(address: string): number | undefined {
+  if (address.startsWith("0x")) {
+    return undefined;
+  }
+  return checkAddressChecksum(base58Decode(address))[3];
+}
@@ -0,0 +1,61 @@
+import { ApiPromise } from "@polkadot/api";
+
+// Native token of the chain, from system.properties
+export type TokenInfo = {
+  decimals: number;
+  symbol: string;
+};
+
+export async function getTokenInfo(api: ApiPromise): Promise<TokenInfo> {
+  const properties = await api.rpc.system.properties();
+  const decimals = properties.tokenDecimals.unwrapOr(undefined)?.[0]?.toNumber();
+  const symbol = properties.tokenSymbol.unwrapOr(undefined)?.[0]?.toString();
+  return {
+    decimals: decimals ?? api.registry.chainDecimals[0],
+    symbol: symbol ?? api.registry.chainTokens[0],
+  };
+}
+
+// Parses a planck integer ("5000000000000000000") or a decimal amount with
+// the token symbol ("5,000,000 TANSSI", "0.5 tanssi"). Commas are only
+// accepted as thousands separators. Throws if the amount has more decimals
+// than the token.
+export function parseTokenAmount(value: string, token: TokenInfo): bigint {
+  const match = String(value)
+    .trim()
+    .match(/^(\d+|\d{1,3}(?:,\d{3})+|(?=\.\d))((?:\.\d*)?)(?:\s*([A-Za-z][\w-]*))?$/);
+  if (!match) {
+    throw new Error(`"${value}" is not a non-negative amount`);
+  }
+  const [, integer, decimals, unit] = match;
+  const digits = `${integer.replace(/,/g, "")}${decimals}`;
+  if (unit === undefined) {
+    if (digits.includes(".")) {
+      throw new Error(`"${value}" has decimals but no unit, write "${value} ${token.symbol}" or a planck integer`);
+    }
+    return BigInt(digits);
+  }
+  if (unit.toLowerCase() !== token.symbol.toLowerCase()) {
+    throw new Error(`"${value}" is not in ${token.symbol}`);
+  }
+  const [whole, fraction = ""] = digits.split(".");
+  const significant = fraction.replace(/0+$/, "");
+  if (significant.length > token.decimals) {
+    throw new Error(`"${value}" has more than ${token.decimals} decimals, it cannot be converted exactly to planck`);
+  }
+  return BigInt(`${whole || "0"}${significant.padEnd(token.decimals, "0")}`);
+}
+
+// "-1,234.5 TANSSI": grouped whole part, no trailing zeros, every digit kept
+export function formatTokenAmount(planck: bigint, token: TokenInfo): string {
+  const sign = planck < 0n ? "-" : "";
+  const digits = (planck < 0n ? -planck : planck).toString().padStart(token.decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - token.decimals).replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  const fraction = digits.slice(digits.length - token.decimals).replace(/0+$/, "");
+  return `${sign}${whole}${fraction ? `.${fraction}` : ""} ${token.symbol}`;
+}
+
+// Planck and token amount side by side, for reports
+export function describeAmount(planck: bigint, token: TokenInfo): string {
+  return `${planck.toString()} (${formatTokenAmount(planck, token)})`;
+}
@@ -0,0 +1,84 @@
+import fs from "fs";
+import { parse } from "csv-parse/sync";
+import { u8aToHex } from "@polkadot/util";
+import { decodeAddress } from "@polkadot/util-crypto";
+import { TokenInfo, parseTokenAmount } from "./amount";
+
+// Columns of the genesis balances CSV, see genesisBalanceVerification.ts
+const EXPECTED_HEADERS = ["Address", "Balance"];
+export const OPTIONAL_BALANCE_HEADERS = ["Reserved", "Frozen", "Vesting", "Locks"];
+
+export type BalanceRow = {
+  address: string;
+  free: bigint;
+  reserved: bigint;
+  // Frozen, Vesting and Locks when set: they need their own storage
+  unsupported: string[];
+  // Where the row comes from, for error messages
+  source: string;
+};
+
+// Strict reader: any invalid or duplicated row throws
+export function readBalanceCsv(filePath: string, token: TokenInfo): BalanceRow[] {
+  const content = fs.readFileSync(filePath, "utf-8");
+  const records: Record<string, string>[] = parse(content, {
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+  });
+
+  if (records.length === 0) {
+    throw new Error(`CSV file "${filePath}" is empty.`);
+  }
+
+  // Check headers & order
+  const headers = Object.keys(records[0]);
+  for (let i = 0; i < EXPECTED_HEADERS.length; i++) {
+    if (headers[i] !== EXPECTED_HEADERS[i]) {
+      throw new Error(
+        `CSV header mismatch in "${filePath}". Expected "${EXPECTED_HEADERS[i]}", got "${headers[i]}" at column ${i + 1}.`
+      );
+    }
+  }
+  const unknown = headers.slice(EXPECTED_HEADERS.length).filter((h) => !OPTIONAL_BALANCE_HEADERS.includes(h));
+  if (unknown.length) {
+    throw new Error(`Unknown column(s) ${unknown.join(", ")} in "${filePath}".`);
+  }
+
+  const seen = new Map<string, number>();
+  return records.map((row, index) => {
+    const lineNumber = index + 2; // header is line 1
+    const address = row["Address"];
+    if (!address || !row["Balance"]) {
+      throw new Error(`Missing Address or Balance in row ${lineNumber} (${filePath}).`);
+    }
+
+    let publicKey: string;
+    try {
+      publicKey = u8aToHex(decodeAddress(address));
+    } catch {
+      throw new Error(`Invalid Address at row ${lineNumber} (${filePath}).`);
+    }
+    if (seen.has(publicKey)) {
+      throw new Error(`Duplicate Address at row ${lineNumber}, already at row ${seen.get(publicKey)} (${filePath}).`);
+    }
+    seen.set(publicKey, lineNumber);
+
+    const amount = (column: string) => {
+      try {
+        return row[column] ? parseTokenAmount(row[column], token) : 0n;
+      } catch (e) {
+        throw new Error(`Invalid ${column} ${e.message} at row ${lineNumber} (${filePath}).`);
+      }
+    };
+    return {
+      address,
+      free: amount("Balance"),
+      reserved: amount("Reserved"),
+      unsupported: ["Frozen", "Vesting", "Locks"].filter(
+        (column) => row[column] && (column === "Locks" || amount(column) !== 0n)
+      ),
+      source: `${filePath}:${lineNumber}`,
+    };
+  });
+}
@@ -0,0 +1,185 @@
+import fs from "fs";
+import { Options } from "yargs";
+import { ApiPromise } from "@polkadot/api";
+import { SubmittableExtrinsic } from "@polkadot/api/types";
+import { blake2AsHex } from "@polkadot/util-crypto";
+
+export type BatchOptions = {
+  "batch-fill": Options & { type: "number" };
+  batch: Options & { type: "number" };
+  manifest: Options & { type: "string" };
+};
+
+// Parsed CLI args shape
+export type BatchCliArgs = {
+  "batch-fill"?: number;
+  batch?: number;
+  manifest?: string;
+};
+
+export const BATCH_YARGS_OPTIONS: BatchOptions = {
+  "batch-fill": {
+    type: "number",
+    default: 0.75,
+    description: "Fraction of the max extrinsic weight and block length a batch may use (the rest is left for the sudo/origin wrapping)",
+  },
+  batch: {
+    type: "number",
+    description: "Only process this batch (1-based) when the calls are split in several",
+  },
+  manifest: {
+    type: "string",
+    description: "Write the ordered list of batches, with their call hashes, to this JSON file",
+  },
+};
+
+export type Weight = { refTime: bigint; proofSize: bigint };
+
+export type Batch = {
+  calls: SubmittableExtrinsic<"promise">[];
+  // What each call does, for the manifest
+  labels: string[];
+  weight: Weight;
+  length: number;
+};
+
+export type BatchManifestEntry = {
+  index: number;
+  calls: number;
+  labels: string[];
+  weight: { refTime: string; proofSize: string };
+  length: number;
+  // The batch as dispatched with the root (or referendum) origin
+  callHash: string;
+  callData: string;
+  // The extrinsic submitted for --origin, when it differs
+  originCallHash?: string;
+};
+
+// Weight and length limits of a single normal extrinsic
+export function getExtrinsicLimits(api: ApiPromise): { weight: Weight; length: number } {
+  const blockWeights = api.consts.system.blockWeights as any;
+  const normal = blockWeights.perClass.normal;
+  const maxWeight = normal.maxExtrinsic.isSome ? normal.maxExtrinsic.unwrap() : blockWeights.maxBlock;
+  return {
+    weight: {
+      refTime: maxWeight.refTime.toBigInt(),
+      proofSize: maxWeight.proofSize.toBigInt(),
+    },
+    length: (api.consts.system.blockLength as any).max.normal.toNumber(),
+  };
+}
+
+async function measureCall(api: ApiPromise, call: SubmittableExtrinsic<"promise">): Promise<Weight> {
+  if (!api.call.transactionPaymentCallApi) {
+    throw new Error(`Runtime has no TransactionPaymentCallApi, cannot weigh the calls`);
+  }
+  const info = (await api.call.transactionPaymentCallApi.queryCallInfo(
+    call.method,
+    call.method.encodedLength
+  )) as any;
+  return {
+    refTime: info.weight.refTime.toBigInt(),
+    proofSize: info.weight.proofSize.toBigInt(),
+  };
+}
+
+// Splits the calls, in order, into as few batches as fit `fill` of the max
+// extrinsic weight and block length
+export async function splitIntoBatches(
+  api: ApiPromise,
+  calls: SubmittableExtrinsic<"promise">[],
+  labels: string[],
+  fill = 0.75
+): Promise<Batch[]> {
+  const limits = getExtrinsicLimits(api);
+  const scale = (value: bigint) => (value * BigInt(Math.round(fill * 1000))) / 1000n;
+  const maxRefTime = scale(limits.weight.refTime);
+  const maxProofSize = scale(limits.weight.proofSize);
+  const maxLength = Math.floor(limits.length * fill);
+
+  const batches: Batch[] = [];
+  let current: Batch | undefined;
+  for (const [i, call] of calls.entries()) {
+    const weight = await measureCall(api, call);
+    const length = call.method.encodedLength;
+    if (weight.refTime > maxRefTime || weight.proofSize > maxProofSize || length > maxLength) {
+      throw new Error(`Call ${labels[i]} alone exceeds ${fill * 100}% of the max extrinsic weight or block length`);
+    }
+    if (
+      !current ||
+      current.weight.refTime + weight.refTime > maxRefTime ||
+      current.weight.proofSize + weight.proofSize > maxProofSize ||
+      current.length + length > maxLength
+    ) {
+      current = { calls: [], labels: [], weight: { refTime: 0n, proofSize: 0n }, length: 0 };
+      batches.push(current);
+    }
+    current.calls.push(call);
+    current.labels.push(labels[i]);
+    current.weight.refTime += weight.refTime;
+    current.weight.proofSize += weight.proofSize;
+    current.length += length;
+  }
+  return batches;
+}
+
+// States whether splitting kept the all-or-nothing behaviour of utility.batchAll
+export function printBatchPlan(batches: Batch[]) {
+  if (batches.length <= 1) {
+    process.stdout.write(`Fits in a single batch: all-or-nothing (utility.batchAll) ✅\n`);
+    return;
+  }
+  process.stdout.write(`Split into ${batches.length} batches to fit the block weight and length limits:\n`);
+  batches.forEach((batch, i) => {
+    process.stdout.write(
+      `  #${i + 1}: ${batch.calls.length} calls, refTime ${batch.weight.refTime}, proofSize ${batch.weight.proofSize}, ${batch.length} bytes\n`
+    );
+  });
+  process.stdout.write(
+    `⚠️  Each batch is all-or-nothing, but the set is not: if batch #n fails, batches #1..#n-1 stay applied. Submit or approve them in order.\n`
+  );
+}
+
+export function manifestEntry(
+  index: number,
+  batch: Batch,
+  tx: SubmittableExtrinsic<"promise">,
+  originTx: SubmittableExtrinsic<"promise">
+): BatchManifestEntry {
+  const callData = tx.method.toHex();
+  const originCallData = originTx.method.toHex();
+  return {
+    index,
+    calls: batch.calls.length,
+    labels: batch.labels,
+    weight: {
+      refTime: batch.weight.refTime.toString(),
+      proofSize: batch.weight.proofSize.toString(),
+    },
+    length: batch.length,
+    callHash: blake2AsHex(callData),
+    callData,
+    ...(originCallData !== callData ? { originCallHash: blake2AsHex(originCallData) } : {}),
+  };
+}
+
+export function writeBatchManifest(file: string, entries: BatchManifestEntry[]) {
+  fs.writeFileSync(file, JSON.stringify({ batches: entries }, null, 2));
+  process.stdout.write(`Batch manifest written to ${file}\n`);
+}
+
+// Indexes of the batches to process. --build writes a single payload, so it
+// needs --batch once the calls are split.
+export function selectBatches(batches: Batch[], argv: BatchCliArgs & { build?: string }): number[] {
+  if (argv.batch !== undefined) {
+    if (!Number.isInteger(argv.batch) || argv.batch < 1 || argv.batch > batches.length) {
+      throw new Error(`--batch must be between 1 and ${batches.length}`);
+    }
+    return [argv.batch - 1];
+  }
+  if (argv.build && batches.length > 1) {
+    throw new Error(`--build writes one payload: pick the batch with --batch <1..${batches.length}>`);
+  }
+  return batches.map((_, i) => i);
+}
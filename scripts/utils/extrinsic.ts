@@ -0,0 +1,227 @@
+import { Options } from "yargs";
+import { ApiPromise, SubmittableResult } from "@polkadot/api";
+import { AddressOrPair, SubmittableExtrinsic } from "@polkadot/api/types";
+import { ISubmittableResult } from "@polkadot/types/types";
+import { blake2AsHex } from "@polkadot/util-crypto";
+
+export type ExtrinsicOptions = {
+  "wait-finalized": Options & { type: "boolean" };
+  "dry-run": Options & { type: "boolean" };
+};
+
+// Parsed CLI args shape
+export type ExtrinsicCliArgs = {
+  "wait-finalized"?: boolean;
+  "dry-run"?: boolean;
+};
+
+export const EXTRINSIC_YARGS_OPTIONS: ExtrinsicOptions = {
+  "wait-finalized": {
+    type: "boolean",
+    default: false,
+    description: "Wait until the block including the extrinsic is finalized",
+  },
+  "dry-run": {
+    type: "boolean",
+    default: false,
+    description: "Print the call data, call hash and fee estimate without signing or submitting",
+  },
+};
+
+export type ExtrinsicOutcome = {
+  txHash: string;
+  blockHash: string;
+  blockNumber?: number;
+  extrinsicIndex?: number;
+  finalized: boolean;
+  // Events emitted by this extrinsic only
+  events: ISubmittableResult["events"];
+  // Human readable dispatch errors, empty when the extrinsic fully succeeded
+  errors: string[];
+};
+
+export function describeDispatchError(api: ApiPromise, error: any): string {
+  if (error.isModule) {
+    const { section, name, docs } = api.registry.findMetaError(error.asModule);
+    return `${section}.${name}${docs.length ? ` (${docs.join(" ").trim()})` : ""}`;
+  }
+  if (error.isToken) {
+    return `Token.${error.asToken.type}`;
+  }
+  if (error.isArithmetic) {
+    return `Arithmetic.${error.asArithmetic.type}`;
+  }
+  return error.toString();
+}
+
+// Looks for failures both at the extrinsic level and inside the wrappers we use
+// (sudo, proxy, multisig, utility batches and dispatchAs), which report inner failures as
+// successful extrinsics. Without a system.ExtrinsicSuccess event the outcome is
+// unknown, which counts as a failure.
+export function collectDispatchErrors(
+  api: ApiPromise,
+  events: ISubmittableResult["events"]
+): string[] {
+  const errors: string[] = [];
+  const finished = events.some(
+    ({ event }) => event.section === "system" && ["ExtrinsicSuccess", "ExtrinsicFailed"].includes(event.method)
+  );
+  if (!finished) {
+    errors.push(`No system.ExtrinsicSuccess event for the extrinsic, its outcome is unknown`);
+  }
+  for (const { event } of events) {
+    const name = `${event.section}.${event.method}`;
+    switch (name) {
+      case "system.ExtrinsicFailed": {
+        const [dispatchError] = event.data as any;
+        errors.push(`${name}: ${describeDispatchError(api, dispatchError)}`);
+        break;
+      }
+      case "sudo.Sudid": {
+        const [sudoResult] = event.data as any;
+        if (sudoResult.isErr) {
+          errors.push(`${name}: ${describeDispatchError(api, sudoResult.asErr)}`);
+        }
+        break;
+      }
+      case "utility.DispatchedAs":
+      case "proxy.ProxyExecuted": {
+        const [result] = event.data as any;
+        if (result.isErr) {
+          errors.push(`${name}: ${describeDispatchError(api, result.asErr)}`);
+        }
+        break;
+      }
+      case "multisig.MultisigExecuted": {
+        const result = (event.data as any)[4];
+        if (result.isErr) {
+          errors.push(`${name}: ${describeDispatchError(api, result.asErr)}`);
+        }
+        break;
+      }
+      case "utility.BatchInterrupted": {
+        const [index, dispatchError] = event.data as any;
+        errors.push(
+          `${name} at call #${index.toString()}: ${describeDispatchError(api, dispatchError)}`
+        );
+        break;
+      }
+    }
+  }
+  return errors;
+}
+
+// Submits the extrinsic and follows it until it is in a block (or finalized if
+// requested). Without a signer the extrinsic is expected to be already signed.
+export async function sendAndTrack(
+  api: ApiPromise,
+  tx: SubmittableExtrinsic<"promise">,
+  signer?: AddressOrPair,
+  options: { waitFinalized?: boolean } = {}
+): Promise<ExtrinsicOutcome> {
+  return new Promise((resolve, reject) => {
+    let unsub: (() => void) | undefined;
+    let done = false;
+    const finish = (err: Error | null, outcome?: ExtrinsicOutcome) => {
+      if (done) return;
+      done = true;
+      if (unsub) unsub();
+      err ? reject(err) : resolve(outcome!);
+    };
+
+    const onStatus = (result: SubmittableResult) => {
+      const { status } = result;
+      if (
+        status.isInvalid ||
+        status.isDropped ||
+        status.isUsurped ||
+        status.isFinalityTimeout
+      ) {
+        finish(new Error(`Extrinsic ${result.txHash.toHex()} was not included: ${status.type}`));
+        return;
+      }
+      if (status.isInBlock && options.waitFinalized) {
+        process.stdout.write(
+          `\nIncluded in block ${status.asInBlock.toHex()}, waiting for finalization...`
+        );
+        return;
+      }
+      if ((status.isInBlock || status.isFinalized) && result.internalError) {
+        // The block events could not be fetched or decoded, so nothing proves success
+        finish(
+          new Error(
+            `Extrinsic ${result.txHash.toHex()} is in block ${(status.isInBlock ? status.asInBlock : status.asFinalized).toHex()}` +
+              ` but its events could not be read: ${result.internalError.message}`
+          )
+        );
+        return;
+      }
+      if (status.isInBlock || status.isFinalized) {
+        finish(null, {
+          txHash: result.txHash.toHex(),
+          blockHash: (status.isInBlock ? status.asInBlock : status.asFinalized).toHex(),
+          blockNumber: result.blockNumber?.toNumber(),
+          extrinsicIndex: result.txIndex,
+          finalized: status.isFinalized,
+          events: result.events,
+          errors: collectDispatchErrors(api, result.events),
+        });
+      }
+    };
+
+    const send = signer ? tx.signAndSend(signer, onStatus) : tx.send(onStatus);
+    send
+      .then((u) => {
+        unsub = u;
+        if (done) u();
+      })
+      .catch((e) => finish(e));
+  });
+}
+
+// Prints where the extrinsic landed and the events of the given pallets.
+// Returns whether the extrinsic succeeded.
+export function reportOutcome(
+  outcome: ExtrinsicOutcome,
+  eventSections: string[] = []
+): boolean {
+  process.stdout.write(`${outcome.txHash}\n`);
+  process.stdout.write(
+    `${outcome.finalized ? "Finalized" : "Included"} in block ${outcome.blockHash}` +
+      (outcome.blockNumber !== undefined ? ` (#${outcome.blockNumber})` : "") +
+      (outcome.extrinsicIndex !== undefined ? `, extrinsic index ${outcome.extrinsicIndex}` : "") +
+      `\n`
+  );
+  for (const { event } of outcome.events) {
+    if (eventSections.includes(event.section)) {
+      process.stdout.write(
+        `  ${event.section}.${event.method} ${JSON.stringify(event.data.toHuman())}\n`
+      );
+    }
+  }
+  if (outcome.errors.length) {
+    for (const error of outcome.errors) {
+      process.stderr.write(`  ${error}\n`);
+    }
+    process.stdout.write(`Failed ❌\n`);
+    return false;
+  }
+  process.stdout.write(`Done ✅\n`);
+  return true;
+}
+
+// Prints everything needed to review a call before sending it. Nothing is signed:
+// paymentInfo uses a fake signature for the given address.
+export async function printDryRun(
+  tx: SubmittableExtrinsic<"promise">,
+  address: string
+) {
+  const callHex = tx.method.toHex();
+  const { weight, partialFee } = await tx.paymentInfo(address);
+  process.stdout.write(`  Call data:      ${callHex}\n`);
+  process.stdout.write(`  Call hash:      ${blake2AsHex(callHex)}\n`);
+  process.stdout.write(`  Encoded length: ${tx.method.encodedLength} bytes\n`);
+  process.stdout.write(`  Weight:         ${JSON.stringify(weight.toHuman())}\n`);
+  process.stdout.write(`  Estimated fee:  ${partialFee.toString()} (paid by ${address})\n`);
+  process.stdout.write(`Nothing submitted (--dry-run) ✅\n`);
+}
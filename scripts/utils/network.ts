@@ -1,5 +1,7 @@
 import { Options } from "yargs";
 import { ApiPromise, WsProvider } from "@polkadot/api";
+import { ApiDecoration } from "@polkadot/api/types";
+import { isHex } from "@polkadot/util";
 
 export type TANSSI_NETWORK_NAME =
   | "dancelight"
@@ -44,10 +46,44 @@ export const NETWORK_YARGS_OPTIONS: NetworkOptions = {
   finalized: {
     type: "boolean",
     default: false,
-    description: "listen to finalized only",
+    description: "Read the latest finalized block instead of the best one",
   },
 };
 
+// Block selection for read-only commands (the network options add --finalized)
+export type BlockOptions = {
+  at: Options & { type: "string" };
+  genesis: Options & { type: "boolean" };
+};
+
+// Parsed CLI args shape
+export type BlockCliArgs = {
+  at?: string;
+  genesis?: boolean;
+  finalized?: boolean;
+};
+
+export const BLOCK_YARGS_OPTIONS: BlockOptions = {
+  at: {
+    type: "string",
+    description: "Read the state at this block number or hash",
+    conflicts: ["genesis"],
+  },
+  genesis: {
+    type: "boolean",
+    description: "Read the state at the genesis block",
+  },
+};
+
+// State snapshot every read of a command is done against
+export type PinnedBlock = {
+  apiAt: ApiDecoration<"promise">;
+  hash: string;
+  number: number;
+  // How the block was selected: at, genesis, finalized or best
+  source: string;
+};
+
 export function isKnownNetwork(name: string | undefined): name is NETWORK_NAME {
   return !!name && (NETWORK_NAMES as string[]).includes(name);
 }
@@ -86,3 +122,49 @@ export const getApiFor = async (
     provider: wsProvider,
   });
 };
+
+// Resolves --at / --genesis / --finalized (best block otherwise) to a pinned
+// state. Old blocks need an archive node, pruned state fails on first query.
+export const getApiAt = async (
+  api: ApiPromise,
+  argv: BlockCliArgs
+): Promise<PinnedBlock> => {
+  if (argv.finalized && (argv.at !== undefined || argv.genesis)) {
+    throw new Error(`--finalized cannot be combined with --at or --genesis`);
+  }
+  let hash: string;
+  let source: string;
+  if (argv.at !== undefined) {
+    const at = String(argv.at).trim();
+    if (isHex(at, 256)) {
+      hash = at;
+    } else if (/^\d+$/.test(at)) {
+      hash = (await api.rpc.chain.getBlockHash(Number(at))).toHex();
+      if (/^0x0+$/.test(hash)) {
+        throw new Error(`Block #${at} does not exist yet`);
+      }
+    } else {
+      throw new Error(`Invalid --at "${at}": expected a block number or a 32 bytes hash`);
+    }
+    source = "at";
+  } else if (argv.genesis) {
+    hash = api.genesisHash.toHex();
+    source = "genesis";
+  } else if (argv.finalized) {
+    hash = (await api.rpc.chain.getFinalizedHead()).toHex();
+    source = "finalized";
+  } else {
+    hash = (await api.rpc.chain.getHeader()).hash.toHex();
+    source = "best";
+  }
+  const header = await api.rpc.chain.getHeader(hash);
+  return {
+    apiAt: await api.at(hash),
+    hash,
+    number: header.number.toNumber(),
+    source,
+  };
+};
+
+export const describeBlock = (block: PinnedBlock) =>
+  `#${block.number} (${block.hash}, ${block.source})`;
@@ -0,0 +1,329 @@
+import fs from "fs";
+import { CommandModule, Options } from "yargs";
+import { ApiPromise } from "@polkadot/api";
+import { SubmittableExtrinsic } from "@polkadot/api/types";
+import { KeyringPair } from "@polkadot/keyring/types";
+import { SignerPayloadJSON } from "@polkadot/types/types";
+import { bnToU8a, compactToU8a, hexToBn, hexToU8a, u8aConcat, u8aEq, u8aToHex } from "@polkadot/util";
+import { blake2AsHex, blake2AsU8a, decodeAddress } from "@polkadot/util-crypto";
+import { NETWORK_YARGS_OPTIONS, getApiFor } from "./network";
+import { EXTRINSIC_YARGS_OPTIONS, reportOutcome, sendAndTrack } from "./extrinsic";
+import { SIGNER_YARGS_OPTIONS, loadSigner } from "./signer";
+
+export type OfflineOptions = {
+  build: Options & { type: "string" };
+  mortality: Options & { type: "number" };
+};
+
+// Parsed CLI args shape
+export type OfflineCliArgs = {
+  build?: string;
+  mortality?: number;
+};
+
+export const OFFLINE_YARGS_OPTIONS: OfflineOptions = {
+  build: {
+    type: "string",
+    description: "Write the unsigned signing payload to this file instead of submitting (see the sign and broadcast commands)",
+  },
+  mortality: {
+    type: "number",
+    default: 2400,
+    description: "Blocks the payload built with --build stays valid for",
+  },
+};
+
+// Everything needed to sign the extrinsic without a connection, and to check at
+// broadcast time that it is still valid
+export type OfflinePayload = {
+  description: string;
+  address: string;
+  // Decoded call, for review on the signing machine
+  call: unknown;
+  callHash: string;
+  genesisHash: string;
+  specVersion: number;
+  transactionVersion: number;
+  // Fingerprint (blake2) of the runtime metadata the payload was built with
+  metadataHash: string;
+  nonce: number;
+  era: { blockNumber: number; blockHash: string; period: number };
+  payload: SignerPayloadJSON;
+  // Bytes to sign
+  signingPayload: string;
+  signature?: string;
+  signerType?: string;
+};
+
+export async function buildOfflinePayload(
+  api: ApiPromise,
+  tx: SubmittableExtrinsic<"promise">,
+  address: string,
+  mortality: number,
+  description = "transaction"
+): Promise<OfflinePayload> {
+  // Anchor the era on a finalized block so it cannot be retracted
+  const blockHash = await api.rpc.chain.getFinalizedHead();
+  const header = await api.rpc.chain.getHeader(blockHash);
+  const blockNumber = header.number.toNumber();
+  const nonce = await api.rpc.system.accountNextIndex(address);
+  const era = api.registry.createType("ExtrinsicEra", {
+    current: blockNumber,
+    period: mortality,
+  });
+  const signerPayload = api.registry.createType("SignerPayload", {
+    address,
+    blockHash,
+    blockNumber,
+    era,
+    genesisHash: api.genesisHash,
+    method: tx.method,
+    nonce,
+    runtimeVersion: api.runtimeVersion,
+    signedExtensions: api.registry.signedExtensions,
+    tip: 0,
+    version: api.extrinsicVersion,
+  });
+  return {
+    description,
+    address,
+    call: tx.method.toHuman(),
+    callHash: blake2AsHex(tx.method.toHex()),
+    genesisHash: api.genesisHash.toHex(),
+    specVersion: api.runtimeVersion.specVersion.toNumber(),
+    transactionVersion: api.runtimeVersion.transactionVersion.toNumber(),
+    metadataHash: blake2AsHex(api.runtimeMetadata.toU8a()),
+    nonce: nonce.toNumber(),
+    era: {
+      blockNumber,
+      blockHash: blockHash.toHex(),
+      period: era.asMortalEra.period.toNumber(),
+    },
+    payload: signerPayload.toPayload(),
+    signingPayload: signerPayload.toRaw().data,
+  };
+}
+
+export async function writeOfflinePayload(
+  api: ApiPromise,
+  tx: SubmittableExtrinsic<"promise">,
+  address: string | undefined,
+  argv: OfflineCliArgs,
+  description?: string
+) {
+  if (!address) {
+    throw new Error(`--sender is required with --build (the signing key is not used to build)`);
+  }
+  const payload = await buildOfflinePayload(api, tx, address, argv.mortality ?? 2400, description);
+  fs.writeFileSync(argv.build!, JSON.stringify(payload, null, 2));
+  process.stdout.write(`Unsigned payload written to ${argv.build}\n`);
+  process.stdout.write(`  Signer:     ${payload.address} (nonce ${payload.nonce})\n`);
+  process.stdout.write(`  Call hash:  ${payload.callHash}\n`);
+  process.stdout.write(
+    `  Valid from: #${payload.era.blockNumber} for ${payload.era.period} blocks\n`
+  );
+}
+
+function readPayload(file: string): OfflinePayload {
+  const payload = JSON.parse(fs.readFileSync(file, "utf8")) as OfflinePayload;
+  if (!payload.payload || !payload.signingPayload) {
+    throw new Error(`${file} is not an offline payload built with --build`);
+  }
+  return payload;
+}
+
+// Throws unless the bytes to sign are those of the call shown for review:
+// the call hash is the hash of the method, and the signing payload is the
+// method followed by the stated era, nonce, runtime versions, genesis and era
+// block (the extension layout depends on the runtime, so fields are located
+// rather than the payload rebuilt). Needs no connection.
+export function verifyOfflinePayload(payload: OfflinePayload) {
+  const { payload: signer } = payload;
+  if (blake2AsHex(signer.method) !== payload.callHash) {
+    throw new Error(`Call hash ${payload.callHash} does not match the call to sign (${blake2AsHex(signer.method)})`);
+  }
+  if (!u8aEq(decodeAddress(signer.address), decodeAddress(payload.address))) {
+    throw new Error(`Payload is for ${signer.address}, not ${payload.address}`);
+  }
+  const mismatches = [
+    hexToBn(signer.nonce).toNumber() !== payload.nonce && "nonce",
+    signer.genesisHash !== payload.genesisHash && "genesis hash",
+    hexToBn(signer.specVersion).toNumber() !== payload.specVersion && "spec version",
+    hexToBn(signer.transactionVersion).toNumber() !== payload.transactionVersion && "transaction version",
+    signer.blockHash !== payload.era.blockHash && "era block hash",
+  ].filter(Boolean);
+  if (mismatches.length) {
+    throw new Error(`Payload ${mismatches.join(", ")} differ from the ones shown for review`);
+  }
+
+  const data = hexToU8a(payload.signingPayload);
+  const method = hexToU8a(signer.method);
+  if (!u8aEq(data.subarray(0, method.length), method)) {
+    throw new Error(`Signing payload does not start with the call to sign`);
+  }
+  const u32 = (value: string) => bnToU8a(hexToBn(value), { bitLength: 32, isLe: true });
+  const contains = (needle: Uint8Array) => u8aToHex(data.subarray(method.length)).includes(u8aToHex(needle).slice(2));
+  const fields: [string, Uint8Array][] = [
+    ["era", hexToU8a(signer.era)],
+    ["nonce", compactToU8a(hexToBn(signer.nonce))],
+    ["runtime versions", u8aConcat(u32(signer.specVersion), u32(signer.transactionVersion))],
+    ["genesis hash", hexToU8a(signer.genesisHash)],
+    ["era block hash", hexToU8a(signer.blockHash)],
+  ];
+  const missing = fields.filter(([, bytes]) => !contains(bytes)).map(([name]) => name);
+  if (missing.length) {
+    throw new Error(`Signing payload does not contain the stated ${missing.join(", ")}`);
+  }
+}
+
+// Signs the payload, after checking it matches what was shown; needs no connection
+export function signOfflinePayload(payload: OfflinePayload, pair: KeyringPair): OfflinePayload {
+  if (!u8aEq(decodeAddress(payload.address), pair.publicKey)) {
+    throw new Error(`Payload must be signed by ${payload.address}, got key for ${pair.address}`);
+  }
+  verifyOfflinePayload(payload);
+  // Same rule as the runtime: payloads longer than 256 bytes are signed hashed
+  const data = hexToU8a(payload.signingPayload);
+  const message = data.length > 256 ? blake2AsU8a(data, 256) : data;
+  // Ethereum-style chains use a bare signature, others a MultiSignature
+  const signature = pair.sign(message, { withType: pair.type !== "ethereum" });
+  return { ...payload, signature: u8aToHex(signature), signerType: pair.type };
+}
+
+// Throws if the payload can no longer be included as built
+export async function checkOfflinePayload(api: ApiPromise, payload: OfflinePayload) {
+  if (payload.genesisHash !== api.genesisHash.toHex()) {
+    throw new Error(`Payload was built for genesis ${payload.genesisHash}, connected to ${api.genesisHash.toHex()}`);
+  }
+  const specVersion = api.runtimeVersion.specVersion.toNumber();
+  const transactionVersion = api.runtimeVersion.transactionVersion.toNumber();
+  if (payload.specVersion !== specVersion || payload.transactionVersion !== transactionVersion) {
+    throw new Error(
+      `Stale payload: built for runtime ${payload.specVersion}/${payload.transactionVersion}, chain runs ${specVersion}/${transactionVersion}. Build it again.`
+    );
+  }
+  if (payload.metadataHash !== blake2AsHex(api.runtimeMetadata.toU8a())) {
+    throw new Error(`Stale payload: runtime metadata changed since it was built. Build it again.`);
+  }
+
+  const header = await api.rpc.chain.getHeader();
+  const current = header.number.toNumber();
+  const era = api.registry.createType("ExtrinsicEra", payload.payload.era);
+  const death = era.asMortalEra.death(payload.era.blockNumber);
+  if (current >= death) {
+    throw new Error(
+      `Stale payload: its mortal era ended at block #${death} (current #${current}). Build it again.`
+    );
+  }
+  const canonical = await api.rpc.chain.getBlockHash(payload.era.blockNumber);
+  if (canonical.toHex() !== payload.era.blockHash) {
+    throw new Error(
+      `Stale payload: era block #${payload.era.blockNumber} ${payload.era.blockHash} is no longer canonical. Build it again.`
+    );
+  }
+
+  const nonce = (await api.rpc.system.accountNextIndex(payload.address)).toNumber();
+  if (nonce !== payload.nonce) {
+    throw new Error(
+      `Stale payload: built with nonce ${payload.nonce} but ${payload.address} is at nonce ${nonce}.` +
+        (nonce > payload.nonce ? ` Another extrinsic was sent in between, build it again.` : ``)
+    );
+  }
+  process.stdout.write(`Payload valid until block #${death} (current #${current}), nonce ${nonce}\n`);
+}
+
+// Pallets whose events are shown after broadcasting, covering every tool able
+// to build an offline payload
+const BROADCAST_EVENT_SECTIONS = [
+  "registrar",
+  "containerRegistrar",
+  "dataPreservers",
+  "paras",
+  "proxy",
+  "multisig",
+  "preimage",
+  "referenda",
+];
+
+export const OFFLINE_SIGN_COMMAND: CommandModule<{}, any> = {
+  command: "sign",
+  describe: "Signs a payload built with --build. Works without network connection",
+  builder: (yargs) => {
+    return yargs
+      .options({
+        ...SIGNER_YARGS_OPTIONS,
+        payload: {
+          describe: "Unsigned payload file written by --build",
+          type: "string",
+        },
+        output: {
+          describe: "Signed payload file (defaults to <payload>.signed.json)",
+          type: "string",
+        },
+      })
+      .demandOption(["payload"]);
+  },
+  handler: async (argv) => {
+    const payload = readPayload(argv.payload);
+    // Refuse a tampered file before showing anything that could be trusted
+    verifyOfflinePayload(payload);
+    process.stdout.write(`Signing ${payload.description} as ${payload.address}:\n`);
+    process.stdout.write(`${JSON.stringify(payload.call, null, 2)}\n`);
+    process.stdout.write(`  Call hash: ${payload.callHash}\n`);
+    const pair = await loadSigner(argv);
+    const signed = signOfflinePayload(payload, pair);
+    const output = argv.output ?? argv.payload.replace(/(\.json)?$/, ".signed.json");
+    fs.writeFileSync(output, JSON.stringify(signed, null, 2));
+    process.stdout.write(`Signature written to ${output} ✅\n`);
+  },
+};
+
+export const OFFLINE_BROADCAST_COMMAND: CommandModule<{}, any> = {
+  command: "broadcast",
+  describe: "Submits a payload signed with the sign command and tracks its inclusion",
+  builder: (yargs) => {
+    return yargs
+      .options({
+        ...NETWORK_YARGS_OPTIONS,
+        ...EXTRINSIC_YARGS_OPTIONS,
+        payload: {
+          describe: "Signed payload file written by the sign command",
+          type: "string",
+        },
+      })
+      .demandOption(["payload"]);
+  },
+  handler: async (argv) => {
+    const payload = readPayload(argv.payload);
+    if (!payload.signature) {
+      process.stderr.write(`${argv.payload} is not signed, run the sign command first\n`);
+      process.exitCode = 1;
+      return;
+    }
+    try {
+      verifyOfflinePayload(payload);
+    } catch (e) {
+      process.stderr.write(`${e.message}\n`);
+      process.exitCode = 1;
+      return;
+    }
+    const api = await getApiFor(argv);
+    try {
+      await checkOfflinePayload(api, payload);
+      const tx = api.tx(payload.payload.method);
+      tx.addSignature(payload.address, payload.signature as `0x${string}`, payload.payload);
+      process.stdout.write(`Sending ${payload.description}... `);
+      const outcome = await sendAndTrack(api, tx, undefined, {
+        waitFinalized: argv["wait-finalized"],
+      });
+      if (!reportOutcome(outcome, BROADCAST_EVENT_SECTIONS)) {
+        process.exitCode = 1;
+      }
+    } catch (e) {
+      process.stderr.write(`${e.message}\n`);
+      process.exitCode = 1;
+    } finally {
+      await api.disconnect();
+    }
+  },
+};
@@ -0,0 +1,428 @@
+import { Options } from "yargs";
+import { ApiPromise } from "@polkadot/api";
+import { SubmittableExtrinsic } from "@polkadot/api/types";
+import {
+  blake2AsHex,
+  createKeyMulti,
+  decodeAddress,
+  encodeAddress,
+  sortAddresses,
+} from "@polkadot/util-crypto";
+import { u8aEq } from "@polkadot/util";
+import { AddressOrPair } from "@polkadot/api/types";
+import {
+  ExtrinsicCliArgs,
+  ExtrinsicOutcome,
+  printDryRun,
+  reportOutcome,
+  sendAndTrack,
+} from "./extrinsic";
+
+// How the privileged call reaches the chain:
+// - sudo: the signer is the sudo key and submits the call directly
+// - proxy: the signer is a proxy of `--proxy-real` (e.g. the sudo key)
+// - multisig: the signer is one of the signatories of the multisig holding the key
+// - multisig-proxy: the multisig is itself a proxy of `--proxy-real`
+// - governance: there is no sudo, the call is noted as a preimage and proposed
+//   as a referendum on `--track`
+export type ORIGIN_KIND = "sudo" | "proxy" | "multisig" | "multisig-proxy" | "governance";
+export const ORIGIN_KINDS: ORIGIN_KIND[] = [
+  "sudo",
+  "proxy",
+  "multisig",
+  "multisig-proxy",
+  "governance",
+];
+
+export type OriginOptions = {
+  origin: Options & { type: "string" };
+  sender: Options & { type: "string" };
+  "proxy-real": Options & { type: "string" };
+  "proxy-type": Options & { type: "string" };
+  "multisig-signatories": Options & { type: "array" };
+  "multisig-threshold": Options & { type: "number" };
+  "multisig-timepoint": Options & { type: "string" };
+  "multisig-approve-only": Options & { type: "boolean" };
+  track: Options & { type: "string" };
+  "enactment-after": Options & { type: "number" };
+  "decision-deposit": Options & { type: "boolean" };
+};
+
+// Parsed CLI args shape
+export type OriginCliArgs = {
+  origin?: string;
+  sender?: string;
+  "proxy-real"?: string;
+  "proxy-type"?: string;
+  "multisig-signatories"?: (string | number)[];
+  "multisig-threshold"?: number;
+  "multisig-timepoint"?: string;
+  "multisig-approve-only"?: boolean;
+  track?: string;
+  "enactment-after"?: number;
+  "decision-deposit"?: boolean;
+};
+
+export const ORIGIN_YARGS_OPTIONS: OriginOptions = {
+  origin: {
+    type: "string",
+    choices: ORIGIN_KINDS,
+    default: "sudo",
+    description: "How the privileged call is dispatched",
+  },
+  sender: {
+    type: "string",
+    description: "Address submitting the wrapped call, when it is not given by a signing key",
+  },
+  "proxy-real": {
+    type: "string",
+    description: "Proxied account (e.g. the sudo key) for proxy origins",
+  },
+  "proxy-type": {
+    type: "string",
+    description: "Proxy type to force for proxy origins (any matching proxy if omitted)",
+  },
+  "multisig-signatories": {
+    type: "array",
+    string: true,
+    description: "All signatories of the multisig, including the sender",
+  },
+  "multisig-threshold": {
+    type: "number",
+    description: "Approvals required by the multisig",
+  },
+  "multisig-timepoint": {
+    type: "string",
+    description: "Timepoint (<height>-<index>) of the pending multisig operation, looked up on-chain if omitted",
+  },
+  "multisig-approve-only": {
+    type: "boolean",
+    default: false,
+    description: "Approve with the call hash only (multisig.approveAsMulti)",
+  },
+  track: {
+    type: "string",
+    default: "Root",
+    description: "Origin of the referendum for the governance origin (Root, WhitelistedCaller...)",
+  },
+  "enactment-after": {
+    type: "number",
+    default: 10,
+    description: "Blocks between the referendum approval and its enactment",
+  },
+  "decision-deposit": {
+    type: "boolean",
+    default: false,
+    description: "Also place the decision deposit once the referendum is submitted",
+  },
+};
+
+export type MultisigDetails = {
+  address: string;
+  threshold: number;
+  otherSignatories: string[];
+  callHex: string;
+  callHash: string;
+  timepoint: { height: number; index: number } | null;
+  approvals: string[];
+};
+
+export type GovernanceDetails = {
+  preimageHash: string;
+  preimageLength: number;
+  proposalOrigin: any;
+  track?: { id: number; name: string };
+};
+
+export type OriginCall = {
+  tx: SubmittableExtrinsic<"promise">;
+  multisig?: MultisigDetails;
+  governance?: GovernanceDetails;
+};
+
+// Wraps a call that must be dispatched as root: through sudo unless the origin
+// is governance, in which case the referendum itself provides the origin.
+export function asRoot(
+  api: ApiPromise,
+  call: SubmittableExtrinsic<"promise">,
+  argv: OriginCliArgs
+): SubmittableExtrinsic<"promise"> {
+  return argv.origin === "governance" ? call : api.tx.sudo.sudo(call);
+}
+
+export function parseTimepoint(value: string): { height: number; index: number } {
+  const match = /^(\d+)[-:/](\d+)$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid multisig timepoint "${value}", expected <height>-<index>`);
+  }
+  return { height: Number(match[1]), index: Number(match[2]) };
+}
+
+function wrapProxy(
+  api: ApiPromise,
+  call: SubmittableExtrinsic<"promise">,
+  argv: OriginCliArgs
+) {
+  if (!argv["proxy-real"]) {
+    throw new Error(`--proxy-real is required for --origin ${argv.origin}`);
+  }
+  return api.tx.proxy.proxy(argv["proxy-real"], argv["proxy-type"] ?? null, call);
+}
+
+async function wrapMultisig(
+  api: ApiPromise,
+  call: SubmittableExtrinsic<"promise">,
+  argv: OriginCliArgs,
+  sender: string
+): Promise<OriginCall> {
+  const signatories = (argv["multisig-signatories"] ?? []).map(String);
+  const threshold = argv["multisig-threshold"];
+  if (!signatories.length || !threshold) {
+    throw new Error(
+      `--multisig-signatories and --multisig-threshold are required for --origin ${argv.origin}`
+    );
+  }
+  if (threshold > signatories.length) {
+    throw new Error(
+      `Multisig threshold ${threshold} is higher than the number of signatories (${signatories.length})`
+    );
+  }
+  const ss58 = api.registry.chainSS58;
+  const senderKey = decodeAddress(sender);
+  if (!signatories.some((s) => u8aEq(decodeAddress(s), senderKey))) {
+    throw new Error(`Sender ${sender} is not one of the multisig signatories`);
+  }
+  const address = encodeAddress(createKeyMulti(signatories, threshold), ss58);
+  const otherSignatories = sortAddresses(
+    signatories.filter((s) => !u8aEq(decodeAddress(s), senderKey)),
+    ss58
+  );
+  const callHex = call.method.toHex();
+  const callHash = blake2AsHex(callHex);
+
+  // Pending operations are identified by the timepoint of their first approval
+  let timepoint: MultisigDetails["timepoint"] = null;
+  let approvals: string[] = [];
+  const pending = (await api.query.multisig.multisigs(address, callHash)) as any;
+  if (pending.isSome) {
+    const { when, approvals: onChainApprovals } = pending.unwrap();
+    timepoint = { height: when.height.toNumber(), index: when.index.toNumber() };
+    approvals = onChainApprovals.map((a: any) => encodeAddress(a, ss58));
+    // The pallet fails with AlreadyApproved, unless the approvals are enough
+    // for the sender to execute the call
+    const approved = onChainApprovals.some((a: any) => u8aEq(a.toU8a(), senderKey));
+    if (approved && approvals.length < threshold) {
+      throw new Error(
+        `Sender ${sender} already approved ${callHash} on multisig ${address} (${approvals.length}/${threshold} approvals), another signatory must approve`
+      );
+    }
+  }
+  if (argv["multisig-timepoint"]) {
+    const given = parseTimepoint(argv["multisig-timepoint"]);
+    if (timepoint && (given.height !== timepoint.height || given.index !== timepoint.index)) {
+      throw new Error(
+        `Given timepoint ${argv["multisig-timepoint"]} does not match the pending operation (${timepoint.height}-${timepoint.index})`
+      );
+    }
+    timepoint = given;
+  }
+
+  const details: MultisigDetails = {
+    address,
+    threshold,
+    otherSignatories,
+    callHex,
+    callHash,
+    timepoint,
+    approvals,
+  };
+
+  if (threshold === 1) {
+    return { tx: api.tx.multisig.asMultiThreshold1(otherSignatories, call), multisig: details };
+  }
+  const { weight } = await call.paymentInfo(address);
+  const tx = argv["multisig-approve-only"]
+    ? api.tx.multisig.approveAsMulti(threshold, otherSignatories, timepoint, callHash, weight)
+    : api.tx.multisig.asMulti(threshold, otherSignatories, timepoint, call, weight);
+  return { tx, multisig: details };
+}
+
+function toSnakeCase(value: string): string {
+  return value
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/[\s-]+/g, "_")
+    .toLowerCase();
+}
+
+async function wrapGovernance(
+  api: ApiPromise,
+  call: SubmittableExtrinsic<"promise">,
+  argv: OriginCliArgs
+): Promise<OriginCall> {
+  if (!api.tx.referenda || !api.tx.preimage) {
+    throw new Error(
+      `Runtime ${api.runtimeVersion.specName.toString()} has no referenda/preimage pallets, cannot use --origin governance`
+    );
+  }
+  const trackOrigin = argv.track ?? "Root";
+  const proposalOrigin =
+    trackOrigin.toLowerCase() === "root" ? { system: "Root" } : { Origins: trackOrigin };
+
+  // Tracks are named after their origin (Root -> root, WhitelistedCaller -> whitelisted_caller)
+  const tracks = (api.consts.referenda.tracks as any).map(([id, info]: any) => ({
+    id: id.toNumber(),
+    name: info.name.toString(),
+  }));
+  const track = tracks.find((t: { name: string }) => t.name === toSnakeCase(trackOrigin));
+  if (!track) {
+    process.stderr.write(
+      `Warning: no referenda track named after origin "${trackOrigin}". Known tracks: ${tracks
+        .map((t: { name: string }) => t.name)
+        .join(", ")}\n`
+    );
+  }
+
+  const preimage = call.method.toHex();
+  const preimageHash = blake2AsHex(preimage);
+  const preimageLength = call.method.encodedLength;
+  const txs: SubmittableExtrinsic<"promise">[] = [];
+  // A status entry alone is not enough: a preimage can be requested (e.g. by
+  // the whitelist) without ever being noted, so look for the bytes themselves
+  const noted = (await api.query.preimage.preimageFor([preimageHash, preimageLength])) as any;
+  if (noted.isSome) {
+    process.stdout.write(`Preimage ${preimageHash} already noted\n`);
+  } else {
+    txs.push(api.tx.preimage.notePreimage(preimage));
+  }
+  txs.push(
+    api.tx.referenda.submit(
+      proposalOrigin,
+      { Lookup: { hash: preimageHash, len: preimageLength } },
+      { After: argv["enactment-after"] ?? 10 }
+    )
+  );
+  return {
+    tx: txs.length === 1 ? txs[0] : api.tx.utility.batchAll(txs),
+    governance: { preimageHash, preimageLength, proposalOrigin, track },
+  };
+}
+
+// Wraps a call (usually built with asRoot) so the signer can submit it through
+// the selected origin.
+export async function wrapForOrigin(
+  api: ApiPromise,
+  call: SubmittableExtrinsic<"promise">,
+  argv: OriginCliArgs,
+  sender?: string
+): Promise<OriginCall> {
+  const origin = (argv.origin ?? "sudo") as ORIGIN_KIND;
+  switch (origin) {
+    case "sudo":
+      return { tx: call };
+    case "proxy":
+      return { tx: wrapProxy(api, call, argv) };
+    case "governance":
+      return wrapGovernance(api, call, argv);
+    case "multisig":
+    case "multisig-proxy": {
+      const from = sender ?? argv.sender;
+      if (!from) {
+        throw new Error(`--sender is required for --origin ${origin}`);
+      }
+      const inner = origin === "multisig-proxy" ? wrapProxy(api, call, argv) : call;
+      return wrapMultisig(api, inner, argv, from);
+    }
+    default:
+      throw new Error(`Unknown origin "${origin}". Known: ${ORIGIN_KINDS.join(", ")}`);
+  }
+}
+
+// Prints what the other signatories need in order to approve the same operation
+export function printMultisigDetails(details: MultisigDetails, outcome?: ExtrinsicOutcome) {
+  let timepoint = details.timepoint
+    ? `${details.timepoint.height}-${details.timepoint.index}`
+    : "none (this is the first approval)";
+  const created = outcome?.events.find(
+    ({ event }) => event.section === "multisig" && event.method === "NewMultisig"
+  );
+  if (created && outcome?.blockNumber !== undefined && outcome.extrinsicIndex !== undefined) {
+    timepoint = `${outcome.blockNumber}-${outcome.extrinsicIndex}`;
+  }
+  process.stdout.write(`--- MULTISIG ---\n`);
+  process.stdout.write(`  Multisig account:  ${details.address}\n`);
+  process.stdout.write(`  Threshold:         ${details.threshold}\n`);
+  process.stdout.write(`  Other signatories: ${details.otherSignatories.join(", ")}\n`);
+  process.stdout.write(`  Call data:         ${details.callHex}\n`);
+  process.stdout.write(`  Call hash:         ${details.callHash}\n`);
+  process.stdout.write(`  Timepoint:         ${timepoint}\n`);
+  if (details.approvals.length) {
+    process.stdout.write(`  Approved by:       ${details.approvals.join(", ")}\n`);
+  }
+}
+
+// Prints the proposal and, once submitted, the index of the new referendum.
+// Returns the referendum index if it was found in the events.
+export function printGovernanceDetails(
+  details: GovernanceDetails,
+  outcome?: ExtrinsicOutcome
+): number | undefined {
+  process.stdout.write(`--- GOVERNANCE ---\n`);
+  process.stdout.write(`  Proposal origin: ${JSON.stringify(details.proposalOrigin)}\n`);
+  if (details.track) {
+    process.stdout.write(`  Track:           ${details.track.id} (${details.track.name})\n`);
+  }
+  process.stdout.write(`  Preimage hash:   ${details.preimageHash}\n`);
+  process.stdout.write(`  Preimage length: ${details.preimageLength} bytes\n`);
+  const submitted = outcome?.events.find(
+    ({ event }) => event.section === "referenda" && event.method === "Submitted"
+  );
+  if (!submitted) {
+    return undefined;
+  }
+  const index = (submitted.event.data as any)[0].toNumber();
+  process.stdout.write(`  Referendum:      #${index}\n`);
+  return index;
+}
+
+// Prints a wrapped call without submitting it (--dry-run)
+export async function printOriginCall(
+  { tx, multisig, governance }: OriginCall,
+  address: string
+) {
+  await printDryRun(tx, address);
+  if (multisig) printMultisigDetails(multisig);
+  if (governance) printGovernanceDetails(governance);
+}
+
+// Sends a wrapped call, waits for its inclusion and reports the outcome together
+// with what the other signatories need or the new referendum index. Places the
+// decision deposit if requested. Returns whether every extrinsic succeeded.
+// `onOutcome` receives the outcome of the call itself, e.g. to read its events.
+export async function sendOriginCall(
+  api: ApiPromise,
+  { tx, multisig, governance }: OriginCall,
+  signer: AddressOrPair,
+  argv: ExtrinsicCliArgs & OriginCliArgs,
+  eventSections: string[] = [],
+  onOutcome?: (outcome: ExtrinsicOutcome) => void
+): Promise<boolean> {
+  const waitFinalized = argv["wait-finalized"];
+  const outcome = await sendAndTrack(api, tx, signer, { waitFinalized });
+  let success = reportOutcome(outcome, eventSections);
+  onOutcome?.(outcome);
+  if (multisig) printMultisigDetails(multisig, outcome);
+  if (governance) {
+    const index = printGovernanceDetails(governance, outcome);
+    if (index !== undefined && argv["decision-deposit"] && success) {
+      process.stdout.write(`Placing decision deposit for referendum #${index}... `);
+      const depositOutcome = await sendAndTrack(
+        api,
+        api.tx.referenda.placeDecisionDeposit(index),
+        signer,
+        { waitFinalized }
+      );
+      success = reportOutcome(depositOutcome, eventSections) && success;
+    }
+  }
+  return success;
+}
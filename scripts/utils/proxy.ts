@@ -0,0 +1,329 @@
+import fs from "fs";
+import path from "path";
+import { parse } from "csv-parse/sync";
+import { ApiPromise } from "@polkadot/api";
+import { Enum } from "@polkadot/types";
+import { formatBalance, u8aToHex } from "@polkadot/util";
+import { decodeAddress, encodeAddress } from "@polkadot/util-crypto";
+
+// Variants of the runtime's ProxyType enum, read from the metadata of the
+// `proxyType` argument of proxy.addProxy (each runtime defines its own list)
+export function getProxyTypes(api: ApiPromise): string[] {
+  const addProxy = api.tx.proxy?.addProxy;
+  if (!addProxy) {
+    throw new Error(`Runtime ${api.runtimeVersion.specName.toString()} has no proxy pallet`);
+  }
+  const arg = addProxy.meta.args.find((a) => a.name.toString() === "proxyType");
+  if (!arg) {
+    throw new Error(`proxy.addProxy has no proxyType argument`);
+  }
+  const proxyType = api.registry.createType(arg.type.toString()) as Enum;
+  // Gaps in the enum indices are filled with __UnusedN placeholders
+  return proxyType.defKeys.filter((variant) => !/^__Unused\d+$/.test(variant));
+}
+
+// Position of the variant in the runtime's ProxyType enum, as encoded on chain
+export function proxyTypeIndex(api: ApiPromise, proxyType: string): number {
+  const arg = api.tx.proxy.addProxy.meta.args.find((a) => a.name.toString() === "proxyType")!;
+  return (api.registry.createType(arg.type.toString(), proxyType) as Enum).index;
+}
+
+// Proxy type ignoring case, spaces, "-" and "_"
+function proxyTypeKey(value: string): string {
+  return String(value).replace(/[\s_-]/g, "").toLowerCase();
+}
+
+// Maps a CSV value to the runtime variant, ignoring case, spaces, "-" and "_"
+// (e.g. "non-transfer" -> "NonTransfer")
+export function normalizeProxyType(raw: string, proxyTypes: string[]): string {
+  const wanted = proxyTypeKey(raw);
+  const mapped = proxyTypes.find((variant) => proxyTypeKey(variant) === wanted);
+  if (!mapped) {
+    throw new Error(`Unknown Proxy Type "${raw}". Supported by this runtime: ${proxyTypes.join(", ")}`);
+  }
+  return mapped;
+}
+
+/**
+ * Proxy CSV files must have the following format (strict headers & order):
+ * Genesis Account,Proxy Account,Proxy Type,Delay
+ */
+const EXPECTED_HEADERS = ["Genesis Account", "Proxy Account", "Proxy Type", "Delay"];
+
+// Files of a proxy directory that are not proxy definitions
+export const GENESIS_ACCOUNTS_FILE = "Genesis_Accounts.csv";
+// Snapshots of a previous configuration (e.g. Proxy_TF_OpsStaking_old2.csv)
+export const OLD_SNAPSHOT = /_old(\d+)?$/i;
+
+// One proxy as listed in the CSV files, with the type normalized for the runtime
+export type ProxyDefinition = {
+  genesis: string;
+  delegate: string;
+  proxyType: string;
+  delay: number;
+  // "file:line" the proxy was read from
+  source: string;
+};
+
+// Identity of a proxy on chain: the same delegate may hold several types
+// and delays. Addresses are compared by public key, and types like
+// normalizeProxyType does, so types read offline (as written) match too.
+export function proxyKey(proxy: Omit<ProxyDefinition, "source">): string {
+  return [
+    u8aToHex(decodeAddress(proxy.genesis)),
+    u8aToHex(decodeAddress(proxy.delegate)),
+    proxyTypeKey(proxy.proxyType),
+    proxy.delay,
+  ].join("/");
+}
+
+// Without `proxyTypes` (offline), the types are kept as written. An empty
+// file throws unless `allowEmpty` is set.
+export function readProxyCsv(filePath: string, proxyTypes?: string[], allowEmpty = false): ProxyDefinition[] {
+  const content = fs.readFileSync(filePath, "utf-8");
+  const records: Record<string, string>[] = parse(content, {
+    columns: true,
+    skip_empty_lines: true,
+    trim: true,
+  });
+
+  if (records.length === 0) {
+    if (allowEmpty) {
+      return [];
+    }
+    throw new Error(`CSV file "${filePath}" is empty.`);
+  }
+
+  // Check headers & order
+  const headers = Object.keys(records[0]);
+  for (let i = 0; i < EXPECTED_HEADERS.length; i++) {
+    if (headers[i] !== EXPECTED_HEADERS[i]) {
+      throw new Error(
+        `CSV header mismatch in "${filePath}". Expected "${EXPECTED_HEADERS[i]}", got "${headers[i]}" at column ${i + 1}.`
+      );
+    }
+  }
+
+  return records.map((row, index) => {
+    const lineNumber = index + 2; // header is line 1
+    const genesis = row["Genesis Account"];
+    const delegate = row["Proxy Account"];
+    const type = row["Proxy Type"];
+    const delay = row["Delay"];
+
+    if (!genesis || !delegate || !type || delay === undefined) {
+      throw new Error(`Missing field(s) in row ${lineNumber} (${filePath}).`);
+    }
+
+    // Validate addresses
+    try {
+      decodeAddress(genesis);
+    } catch {
+      throw new Error(`Invalid Genesis Account address at row ${lineNumber} (${filePath}).`);
+    }
+    try {
+      decodeAddress(delegate);
+    } catch {
+      throw new Error(`Invalid Proxy Account address at row ${lineNumber} (${filePath}).`);
+    }
+
+    // Validate Proxy Type against the runtime's ProxyType enum
+    let proxyType: string;
+    try {
+      proxyType = proxyTypes ? normalizeProxyType(type, proxyTypes) : type;
+    } catch (e) {
+      throw new Error(`${e.message} (row ${lineNumber}, ${filePath}).`);
+    }
+
+    // Validate Delay is a non-negative integer
+    const d = Number(delay);
+    if (!Number.isInteger(d) || d < 0) {
+      throw new Error(
+        `Invalid Delay value (must be a non-negative integer) at row ${lineNumber} (${filePath}).`
+      );
+    }
+
+    return { genesis, delegate, proxyType, delay: d, source: `${filePath}:${lineNumber}` };
+  });
+}
+
+export type ReadProxyOptions = {
+  log?: (message: string) => void;
+  // Skip empty files with a warning instead of failing
+  skipEmpty?: boolean;
+  // Report a file that cannot be read (or has an invalid row) and go on with
+  // the others, instead of throwing
+  onFileError?: (filePath: string, error: Error) => void;
+};
+
+// Reads a single CSV file, or every proxy CSV of a directory (skipping
+// Genesis_Accounts.csv and the *_old snapshots)
+export function readProxyCsvPath(
+  target: string,
+  proxyTypes: string[],
+  options: ReadProxyOptions = {}
+): ProxyDefinition[] {
+  const { log = (message) => process.stdout.write(`${message}\n`), skipEmpty = false, onFileError } = options;
+  let failed = false;
+  const readFile = (filePath: string): ProxyDefinition[] => {
+    try {
+      const proxies = readProxyCsv(filePath, proxyTypes, skipEmpty);
+      if (proxies.length === 0) {
+        log(`CSV file is empty: ${filePath}. Skipping.`);
+      }
+      return proxies;
+    } catch (error) {
+      if (!onFileError) {
+        throw error;
+      }
+      failed = true;
+      onFileError(filePath, error);
+      return [];
+    }
+  };
+
+  if (!fs.statSync(target).isDirectory()) {
+    return readFile(target);
+  }
+
+  const csvFiles = fs.readdirSync(target).filter((file) => {
+    const { ext, name } = path.parse(file);
+    return ext.toLowerCase() === ".csv" && !OLD_SNAPSHOT.test(name);
+  });
+  if (csvFiles.length === 0) {
+    throw new Error(`No CSV files found in the directory: ${target}`);
+  }
+
+  let proxies: ProxyDefinition[] = [];
+  for (const csvFile of csvFiles.sort()) {
+    if (csvFile === GENESIS_ACCOUNTS_FILE) {
+      log(`Skipping file: ${csvFile}`);
+      continue;
+    }
+    log(`Parsing: ${csvFile}`);
+    proxies = proxies.concat(readFile(path.join(target, csvFile)));
+  }
+  // Files already reported through onFileError explain why nothing was read
+  if (proxies.length === 0 && !failed) {
+    throw new Error(`After filtering and skipping, no valid CSV data was found in directory: ${target}`);
+  }
+  return proxies;
+}
+
+// Groups proxies by genesis account (keyed by public key), dropping exact
+// duplicates listed in several files
+export function groupByGenesis(proxies: ProxyDefinition[]): Map<string, Map<string, ProxyDefinition>> {
+  const grouped = new Map<string, Map<string, ProxyDefinition>>();
+  for (const proxy of proxies) {
+    const genesisKey = u8aToHex(decodeAddress(proxy.genesis));
+    const account = grouped.get(genesisKey) ?? new Map<string, ProxyDefinition>();
+    const key = proxyKey(proxy);
+    const existing = account.get(key);
+    if (existing) {
+      process.stdout.write(`Ignoring duplicate proxy at ${proxy.source} (already listed at ${existing.source})\n`);
+      continue;
+    }
+    account.set(key, proxy);
+    grouped.set(genesisKey, account);
+  }
+  return grouped;
+}
+
+// Proxies currently registered on chain for the given accounts, grouped like
+// groupByGenesis
+export async function fetchOnChainProxies(
+  api: ApiPromise,
+  accounts: string[]
+): Promise<Map<string, Map<string, ProxyDefinition>>> {
+  const results = await api.query.proxy.proxies.multi(accounts);
+  const proxies: ProxyDefinition[] = [];
+  results.forEach((result: any, i) => {
+    const [definitions] = result;
+    for (const definition of definitions) {
+      proxies.push({
+        genesis: accounts[i],
+        delegate: definition.delegate.toString(),
+        proxyType: definition.proxyType.toString(),
+        delay: definition.delay.toNumber(),
+        source: "on chain",
+      });
+    }
+  });
+  return groupByGenesis(proxies);
+}
+
+// Account whose free balance cannot cover the extra proxy deposit
+export type DepositShortfall = {
+  account: string;
+  proxies: number;
+  deposit: bigint;
+  required: bigint;
+  available: bigint;
+};
+
+// Checks that every account can afford the change of its proxy deposit
+// (proxyDepositBase + proxyDepositFactor * proxies) once `changes[account]`
+// proxies are added (or removed, when negative). Removals are refunded first,
+// so only the net increase has to be reserved. `changes` is keyed by public
+// key, so one account written with several SS58 encodings is summed once.
+export async function checkProxyDeposits(
+  api: ApiPromise,
+  changes: Map<string, number>
+): Promise<DepositShortfall[]> {
+  const accounts = Array.from(changes.keys());
+  if (accounts.length === 0) {
+    return [];
+  }
+  const base: bigint = (api.consts.proxy.proxyDepositBase as any).toBigInt();
+  const factor: bigint = (api.consts.proxy.proxyDepositFactor as any).toBigInt();
+  const existentialDeposit: bigint = (api.consts.balances.existentialDeposit as any).toBigInt();
+
+  const [proxies, infos] = await Promise.all([
+    api.query.proxy.proxies.multi(accounts),
+    api.query.system.account.multi(accounts),
+  ]);
+
+  const shortfalls: DepositShortfall[] = [];
+  accounts.forEach((account, i) => {
+    const [definitions, currentDeposit] = proxies[i] as any;
+    const count: number = definitions.length + changes.get(account)!;
+    const deposit = count > 0 ? base + factor * BigInt(count) : 0n;
+    const required = deposit - (currentDeposit.toBigInt() as bigint);
+    if (required <= 0n) {
+      return;
+    }
+    // Reserving cannot touch frozen funds (unless already reserved) nor the existential deposit
+    const data = (infos[i] as any).data;
+    const free: bigint = data.free.toBigInt();
+    const reserved: bigint = data.reserved.toBigInt();
+    const frozen: bigint = (data.frozen ?? data.miscFrozen).toBigInt();
+    const untouchable = frozen - reserved > existentialDeposit ? frozen - reserved : existentialDeposit;
+    const available = free > untouchable ? free - untouchable : 0n;
+    if (available < required) {
+      shortfalls.push({ account, proxies: count, deposit, required, available });
+    }
+  });
+  return shortfalls;
+}
+
+// Prints the accounts that cannot afford their new proxy deposit and throws,
+// so no batch is produced that would fail inside dispatchAs
+export async function assertProxyDeposits(api: ApiPromise, changes: Map<string, number>) {
+  const shortfalls = await checkProxyDeposits(api, changes);
+  if (shortfalls.length === 0) {
+    process.stdout.write(`Proxy deposits: all ${changes.size} accounts can afford their new deposit ✅\n`);
+    return;
+  }
+  const format = (value: bigint) =>
+    formatBalance(value, {
+      decimals: api.registry.chainDecimals[0],
+      withUnit: api.registry.chainTokens[0],
+    });
+  process.stdout.write(`--- INSUFFICIENT BALANCE FOR PROXY DEPOSITS ---\n`);
+  for (const s of shortfalls) {
+    process.stdout.write(
+      `  ${encodeAddress(s.account, api.registry.chainSS58)}: ${s.proxies} proxies need ${format(s.required)} more reserved (deposit ${format(s.deposit)}), only ${format(s.available)} available\n`
+    );
+  }
+  throw new Error(`${shortfalls.length} account(s) cannot afford their proxy deposit, no batch produced`);
+}
@@ -0,0 +1,117 @@
+import { ApiPromise } from "@polkadot/api";
+import { ApiDecoration, SubmittableExtrinsic } from "@polkadot/api/types";
+import { blake2AsHex } from "@polkadot/util-crypto";
+
+export type RegistrarPalletName = "registrar" | "containerRegistrar";
+
+// Container registrar as exposed by the connected runtime.
+// Orchestrator parachains (dancebox, flashbox) expose it as `registrar`, while
+// relay-based runtimes (dancelight, tanssi) keep `registrar` for the polkadot
+// paras registrar and expose ours as `containerRegistrar`.
+export type RegistrarPallet = {
+  name: RegistrarPalletName;
+  isRelay: boolean;
+  tx: ApiPromise["tx"][string];
+  query: ApiPromise["query"][string];
+};
+
+// Pallet storing container chain bootnodes, if the runtime still has one
+export type BootNodesPallet = {
+  name: string;
+  tx: ApiPromise["tx"][string];
+  query: ApiPromise["query"][string];
+};
+
+// Well known `:code` storage key
+const CODE_KEY = "0x3a636f6465";
+
+export function resolveRegistrar(api: ApiPromise): RegistrarPallet {
+  const candidates: RegistrarPalletName[] = ["containerRegistrar", "registrar"];
+  const name = candidates.find(
+    (pallet) => !!api.tx[pallet]?.markValidForCollating && !!api.query[pallet]
+  );
+  if (!name) {
+    throw new Error(
+      `Runtime ${api.runtimeVersion.specName.toString()} has no container registrar pallet (looked for ${candidates.join(", ")})`
+    );
+  }
+  return {
+    name,
+    isRelay: !!api.tx.paras?.addTrustedValidationCode,
+    tx: api.tx[name],
+    query: api.query[name],
+  };
+}
+
+export function resolveBootNodes(
+  api: ApiPromise,
+  registrar: RegistrarPallet
+): BootNodesPallet | undefined {
+  const name = [registrar.name, "dataPreservers"].find(
+    (pallet) => !!api.tx[pallet]?.setBootNodes && !!api.query[pallet]?.bootNodes
+  );
+  if (!name) {
+    return undefined;
+  }
+  return { name, tx: api.tx[name], query: api.query[name] };
+}
+
+// Read-only counterparts for a pinned block (api.at): the runtime of that block
+// may differ from the current one, and only its storage is available there.
+// Return the pallet names to query.
+export function resolveRegistrarAt(apiAt: ApiDecoration<"promise">): RegistrarPalletName {
+  const candidates: RegistrarPalletName[] = ["containerRegistrar", "registrar"];
+  const name = candidates.find((pallet) => !!apiAt.query[pallet]?.paraGenesisData);
+  if (!name) {
+    throw new Error(
+      `Runtime ${apiAt.runtimeVersion.specName.toString()} has no container registrar pallet (looked for ${candidates.join(", ")})`
+    );
+  }
+  return name;
+}
+
+export function resolveBootNodesAt(
+  apiAt: ApiDecoration<"promise">,
+  registrar: RegistrarPalletName
+): string | undefined {
+  return [registrar, "dataPreservers"].find((pallet) => !!apiAt.query[pallet]?.bootNodes);
+}
+
+// Builds the calls needed to register a container chain. `privileged` calls must
+// be dispatched as root (wrapped in sudo by the caller), `register` is a signed call.
+export async function buildRegisterCalls(
+  api: ApiPromise,
+  registrar: RegistrarPallet,
+  paraId: number,
+  genesisData: any,
+  rawSpec: any
+): Promise<{
+  privileged: SubmittableExtrinsic<"promise">[];
+  register: SubmittableExtrinsic<"promise">;
+}> {
+  const privileged: SubmittableExtrinsic<"promise">[] = [];
+  if (!registrar.isRelay) {
+    return { privileged, register: registrar.tx.register(paraId, genesisData) };
+  }
+
+  // The relay paras registrar only accepts validation code that is already trusted
+  const code = rawSpec.genesis?.raw?.top?.[CODE_KEY];
+  if (!code) {
+    throw new Error(`Chain spec has no ":code" entry in genesis.raw.top, cannot register on a relay runtime`);
+  }
+  const codeHash = blake2AsHex(code);
+  const knownCode = (await api.query.paras.codeByHash(codeHash)) as any;
+  if (knownCode.isSome) {
+    process.stdout.write(`Validation code ${codeHash} already trusted\n`);
+  } else {
+    process.stdout.write(`Will add trusted validation code ${codeHash}\n`);
+    privileged.push(api.tx.paras.addTrustedValidationCode(code));
+  }
+
+  // No explicit head data, the runtime falls back to its default
+  const register =
+    registrar.tx.register.meta.args.length > 2
+      ? registrar.tx.register(paraId, genesisData, null)
+      : registrar.tx.register(paraId, genesisData);
+  return { privileged, register };
+}
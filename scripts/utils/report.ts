@@ -0,0 +1,92 @@
+import fs from "fs";
+import { Options } from "yargs";
+
+export type ReportFormat = "text" | "json" | "junit" | "markdown";
+export const REPORT_FORMATS: ReportFormat[] = ["text", "json", "junit", "markdown"];
+
+export type ReportOptions = {
+  format: Options & { type: "string" };
+  output: Options & { type: "string" };
+};
+
+// Parsed CLI args shape
+export type ReportCliArgs = {
+  format?: string;
+  output?: string;
+};
+
+export const REPORT_YARGS_OPTIONS: ReportOptions = {
+  format: {
+    type: "string",
+    choices: REPORT_FORMATS,
+    default: "text",
+    description: "Report format",
+  },
+  output: {
+    type: "string",
+    description: "Write the report to this file instead of stdout",
+  },
+};
+
+// One checked item of a JUnit test suite; `failure` makes it fail
+export type JunitCase = { name: string; failure?: string };
+export type JunitSuite = { name: string; cases: JunitCase[] };
+
+// Progress messages go to stderr when stdout carries a machine-readable report
+export function reportLogger(argv: ReportCliArgs): (message: string) => void {
+  const toStderr = (argv.format ?? "text") !== "text" && !argv.output;
+  return (message) => (toStderr ? process.stderr : process.stdout).write(`${message}\n`);
+}
+
+export function writeReport(argv: ReportCliArgs, content: string) {
+  if (argv.output) {
+    fs.writeFileSync(argv.output, content);
+    process.stderr.write(`Report written to ${argv.output}\n`);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+export function renderJunit(name: string, suites: JunitSuite[]): string {
+  const count = (cases: JunitCase[]) => cases.length;
+  const failures = (cases: JunitCase[]) => cases.filter((c) => c.failure !== undefined).length;
+  const all = suites.flatMap((s) => s.cases);
+  const lines = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<testsuites name="${escapeXml(name)}" tests="${count(all)}" failures="${failures(all)}">`,
+  ];
+  for (const suite of suites) {
+    lines.push(
+      `  <testsuite name="${escapeXml(suite.name)}" tests="${count(suite.cases)}" failures="${failures(suite.cases)}">`
+    );
+    for (const c of suite.cases) {
+      if (c.failure === undefined) {
+        lines.push(`    <testcase classname="${escapeXml(suite.name)}" name="${escapeXml(c.name)}"/>`);
+      } else {
+        lines.push(`    <testcase classname="${escapeXml(suite.name)}" name="${escapeXml(c.name)}">`);
+        lines.push(`      <failure message="${escapeXml(c.failure)}"/>`);
+        lines.push(`    </testcase>`);
+      }
+    }
+    lines.push(`  </testsuite>`);
+  }
+  lines.push(`</testsuites>`);
+  return `${lines.join("\n")}\n`;
+}
+
+export function renderMarkdownTable(headers: string[], rows: (string | number)[][]): string {
+  const cell = (value: string | number) => String(value).replace(/\|/g, "\\|");
+  return [
+    `| ${headers.join(" | ")} |`,
+    `| ${headers.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${row.map(cell).join(" | ")} |`),
+  ].join("\n");
+}
@@ -0,0 +1,151 @@
+import fs from "fs";
+import readline from "readline";
+import { Options } from "yargs";
+import { Keyring } from "@polkadot/api";
+import { KeyringPair, KeyringPair$Json } from "@polkadot/keyring/types";
+import { KeypairType } from "@polkadot/util-crypto/types";
+import { cryptoWaitReady } from "@polkadot/util-crypto";
+
+export const KEY_TYPES: KeypairType[] = ["sr25519", "ed25519", "ecdsa", "ethereum"];
+
+export type SignerOptions = {
+  "account-priv-key": Options & { type: "string" };
+  keystore: Options & { type: "string" };
+  "keystore-password-env": Options & { type: "string" };
+  "secret-env": Options & { type: "string" };
+  "secret-fd": Options & { type: "number" };
+  "key-type": Options & { type: "string" };
+};
+
+// Parsed CLI args shape
+export type SignerCliArgs = {
+  "account-priv-key"?: string;
+  keystore?: string;
+  "keystore-password-env"?: string;
+  "secret-env"?: string;
+  "secret-fd"?: number;
+  "key-type"?: string;
+};
+
+export const SIGNER_YARGS_OPTIONS: SignerOptions = {
+  "account-priv-key": {
+    type: "string",
+    alias: "account",
+    description: "Secret URI or private key (insecure: it ends up in the shell history, prefer the other sources)",
+  },
+  keystore: {
+    type: "string",
+    description: "Encrypted polkadot-js JSON keystore file",
+  },
+  "keystore-password-env": {
+    type: "string",
+    description: "Environment variable holding the keystore password (prompted for if omitted)",
+  },
+  "secret-env": {
+    type: "string",
+    description: "Environment variable holding the mnemonic or secret URI",
+  },
+  "secret-fd": {
+    type: "number",
+    description: "File descriptor to read the mnemonic or secret URI from (e.g. --secret-fd 3 3<secret.txt)",
+  },
+  "key-type": {
+    type: "string",
+    choices: KEY_TYPES,
+    default: "sr25519",
+    description: "Key type of the mnemonic or secret URI",
+  },
+};
+
+export function hasSignerSource(argv: SignerCliArgs): boolean {
+  return (
+    !!argv["account-priv-key"] ||
+    !!argv.keystore ||
+    !!argv["secret-env"] ||
+    argv["secret-fd"] !== undefined
+  );
+}
+
+async function promptHidden(question: string): Promise<string> {
+  if (!process.stdin.isTTY) {
+    throw new Error(`Cannot prompt for "${question.trim()}" without a terminal, use --keystore-password-env`);
+  }
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stderr,
+    terminal: true,
+  });
+  // Echo the question but not what is typed
+  (rl as any)._writeToOutput = (text: string) => {
+    if (text.includes(question)) process.stderr.write(text);
+  };
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close();
+      process.stderr.write("\n");
+      resolve(answer);
+    });
+  });
+}
+
+async function loadKeystore(argv: SignerCliArgs): Promise<KeyringPair> {
+  const json: KeyringPair$Json = JSON.parse(fs.readFileSync(argv.keystore!, "utf8"));
+  // The keystore knows its own key type
+  const keyring = new Keyring();
+  const pair = keyring.addFromJson(json);
+  let password: string | undefined;
+  if (argv["keystore-password-env"]) {
+    password = process.env[argv["keystore-password-env"]];
+    if (password === undefined) {
+      throw new Error(`Environment variable ${argv["keystore-password-env"]} is not set`);
+    }
+  } else {
+    password = await promptHidden(`Password for ${pair.address}: `);
+  }
+  try {
+    pair.decodePkcs8(password);
+  } catch (e) {
+    throw new Error(`Unable to decrypt keystore ${argv.keystore}: ${e.message}`);
+  }
+  return pair;
+}
+
+function readSecret(argv: SignerCliArgs): string {
+  if (argv["secret-env"]) {
+    const secret = process.env[argv["secret-env"]];
+    if (!secret) {
+      throw new Error(`Environment variable ${argv["secret-env"]} is not set`);
+    }
+    return secret.trim();
+  }
+  if (argv["secret-fd"] !== undefined) {
+    const secret = fs.readFileSync(argv["secret-fd"], "utf8").trim();
+    if (!secret) {
+      throw new Error(`Nothing could be read from file descriptor ${argv["secret-fd"]}`);
+    }
+    return secret;
+  }
+  process.stderr.write(
+    `Warning: --account-priv-key exposes the secret in the shell history, prefer --keystore, --secret-env or --secret-fd\n`
+  );
+  return argv["account-priv-key"]!;
+}
+
+// Loads the signing account from the first source given on the command line
+export async function loadSigner(argv: SignerCliArgs): Promise<KeyringPair> {
+  await cryptoWaitReady();
+  const sources = [argv.keystore, argv["secret-env"], argv["secret-fd"], argv["account-priv-key"]].filter(
+    (source) => source !== undefined && source !== ""
+  );
+  if (sources.length === 0) {
+    throw new Error(`Missing signer. Provide one of --keystore, --secret-env, --secret-fd or --account-priv-key`);
+  }
+  if (sources.length > 1) {
+    throw new Error(`Only one of --keystore, --secret-env, --secret-fd or --account-priv-key can be given`);
+  }
+  if (argv.keystore) {
+    return loadKeystore(argv);
+  }
+  const keyring = new Keyring({ type: (argv["key-type"] ?? "sr25519") as KeypairType });
+  return keyring.addFromUri(readSecret(argv));
+}
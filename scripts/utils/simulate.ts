@@ -0,0 +1,193 @@
+import { Options } from "yargs";
+import { ApiPromise, WsProvider } from "@polkadot/api";
+import { SubmittableExtrinsic } from "@polkadot/api/types";
+import { signFakeWithApi } from "@acala-network/chopsticks-utils";
+import { collectDispatchErrors, sendAndTrack } from "./extrinsic";
+import { OriginCall, OriginCliArgs } from "./origin";
+import { NETWORK_WS_URLS, NetworkCliArgs, isKnownNetwork } from "./network";
+
+export type SimulateOptions = {
+  simulate: Options & { type: "string" };
+  "simulate-as": Options & { type: "string" };
+  "simulate-storage": Options & { type: "array" };
+};
+
+// Parsed CLI args shape
+export type SimulateCliArgs = {
+  simulate?: string;
+  "simulate-as"?: string;
+  "simulate-storage"?: (string | number)[];
+};
+
+export const SIMULATE_YARGS_OPTIONS: SimulateOptions = {
+  simulate: {
+    type: "string",
+    description: "Chopsticks endpoint to run the transaction against instead of submitting it",
+  },
+  "simulate-as": {
+    type: "string",
+    description: "Account to fake-sign as in the simulation: \"sudo\" (the sudo key) or an address. Defaults to the sender, or sudo",
+  },
+  "simulate-storage": {
+    type: "array",
+    string: true,
+    description: "Storage items (pallet.item) to diff before and after the simulated block",
+  },
+};
+
+// Maps the deprecated --chopsticks flag to --simulate on the endpoint the
+// script is connected to (--url or --network, like getApiFor). The sudo key
+// is only the default sender when the call is wrapped in sudo.
+export function applyChopsticksFlag(
+  argv: SimulateCliArgs & Partial<NetworkCliArgs> & { chopsticks?: boolean },
+  sudoWrapped: boolean
+) {
+  if (!argv.chopsticks || argv.simulate) {
+    return;
+  }
+  const endpoint = isKnownNetwork(argv.network) ? NETWORK_WS_URLS[argv.network] : argv.url;
+  if (!endpoint) {
+    throw new Error(`--chopsticks needs the Chopsticks endpoint, give it with --url or use --simulate <url>`);
+  }
+  argv.simulate = endpoint;
+  if (sudoWrapped) {
+    argv["simulate-as"] ??= "sudo";
+  }
+}
+
+// Wait this long for Chopsticks to build a block on its own before forcing one
+const NEW_BLOCK_TIMEOUT_MS = 3000;
+// Longer values are truncated in the storage diff
+const MAX_VALUE_LENGTH = 300;
+
+type StorageSnapshot = Map<string, { key: string; value: string }>;
+
+function render(value: any): string {
+  const text = JSON.stringify(value.toHuman());
+  return text.length > MAX_VALUE_LENGTH
+    ? `${text.slice(0, MAX_VALUE_LENGTH)}... (${value.encodedLength} bytes)`
+    : text;
+}
+
+async function snapshotStorage(api: ApiPromise, blockHash: string, item: string): Promise<StorageSnapshot> {
+  const [section, method] = item.split(".");
+  const apiAt = await api.at(blockHash);
+  const entry = apiAt.query[section]?.[method];
+  if (!entry) {
+    throw new Error(`Unknown storage item "${item}"`);
+  }
+  const snapshot: StorageSnapshot = new Map();
+  if (entry.creator.meta.type.isPlain) {
+    const value = await entry();
+    snapshot.set("", { key: "", value: render(value) });
+    return snapshot;
+  }
+  for (const [key, value] of await entry.entries()) {
+    snapshot.set(key.toHex(), {
+      key: key.args.map((arg) => arg.toString()).join(", "),
+      value: render(value),
+    });
+  }
+  return snapshot;
+}
+
+function printStorageDiff(item: string, before: StorageSnapshot, after: StorageSnapshot) {
+  const lines: string[] = [];
+  for (const [hash, { key, value }] of after) {
+    const previous = before.get(hash);
+    if (!previous) {
+      lines.push(`  + ${item}(${key}): ${value}`);
+    } else if (previous.value !== value) {
+      lines.push(`  ~ ${item}(${key}): ${previous.value}`);
+      lines.push(`    ${" ".repeat(item.length + key.length + 2)}-> ${value}`);
+    }
+  }
+  for (const [hash, { key, value }] of before) {
+    if (!after.has(hash)) {
+      lines.push(`  - ${item}(${key}): ${value}`);
+    }
+  }
+  process.stdout.write(`--- STORAGE DIFF ${item} ---\n`);
+  process.stdout.write(lines.length ? `${lines.join("\n")}\n` : `  (unchanged)\n`);
+}
+
+// Fake-signs the extrinsic as `sender` on a Chopsticks fork, waits for the block
+// and reports events, dispatch errors and the diff of the given storage items.
+// Returns whether the extrinsic succeeded.
+export async function simulateExtrinsic(
+  endpoint: string,
+  call: SubmittableExtrinsic<"promise">,
+  sender: string,
+  storageItems: string[] = []
+): Promise<boolean> {
+  const provider = new WsProvider(endpoint);
+  const api = await ApiPromise.create({ noInitWarn: true, provider });
+  try {
+    if (sender === "sudo") {
+      if (!api.query.sudo) {
+        throw new Error(`Chain at ${endpoint} has no sudo pallet, use --simulate-as <address>`);
+      }
+      sender = ((await api.query.sudo.key()) as any).unwrap().toString();
+    }
+    process.stdout.write(`--- SIMULATING on ${endpoint} as ${sender} ---\n`);
+
+    // Rebuild on the fork's registry, then fake sign
+    const tx = api.tx(call.method.toHex());
+    await signFakeWithApi(api as any, tx as any, sender);
+
+    const head = (await api.rpc.chain.getHeader()).hash.toHex();
+    const before = new Map<string, StorageSnapshot>();
+    for (const item of storageItems) {
+      before.set(item, await snapshotStorage(api, head, item));
+    }
+
+    // Chopsticks builds blocks on its own unless in manual mode
+    const tracking = sendAndTrack(api, tx);
+    const timer = setTimeout(() => {
+      provider.send("dev_newBlock", [{ count: 1 }]).catch(() => {});
+    }, NEW_BLOCK_TIMEOUT_MS);
+    const outcome = await tracking.finally(() => clearTimeout(timer));
+
+    process.stdout.write(`Included in block ${outcome.blockHash}\n`);
+    process.stdout.write(`--- EVENTS ---\n`);
+    for (const { event } of outcome.events) {
+      process.stdout.write(`  ${event.section}.${event.method} ${JSON.stringify(event.data.toHuman())}\n`);
+    }
+    for (const item of storageItems) {
+      printStorageDiff(item, before.get(item)!, await snapshotStorage(api, outcome.blockHash, item));
+    }
+
+    const errors = collectDispatchErrors(api, outcome.events);
+    if (errors.length) {
+      process.stdout.write(`--- DISPATCH ERRORS ---\n`);
+      errors.forEach((error) => process.stdout.write(`  ${error}\n`));
+      process.stdout.write(`Simulation failed ❌\n`);
+      return false;
+    }
+    process.stdout.write(`Simulation succeeded ✅\n`);
+    return true;
+  } finally {
+    await api.disconnect();
+  }
+}
+
+// Simulates either the call as root through the sudo key (--simulate-as sudo),
+// or the call wrapped for --origin as its sender.
+// `rootCall` is the call as built for --origin sudo or governance.
+export async function simulateOriginCall(
+  api: ApiPromise,
+  rootCall: SubmittableExtrinsic<"promise">,
+  originCall: OriginCall,
+  argv: SimulateCliArgs & OriginCliArgs,
+  sender: string | undefined,
+  defaultStorage: string[] = []
+): Promise<boolean> {
+  const as = argv["simulate-as"] ?? sender ?? "sudo";
+  const storage = argv["simulate-storage"]?.map(String) ?? defaultStorage;
+  if (as === "sudo") {
+    // Under governance the call was not wrapped in sudo
+    const tx = argv.origin === "governance" ? api.tx.sudo.sudo(rootCall) : rootCall;
+    return simulateExtrinsic(argv.simulate!, tx, "sudo", storage);
+  }
+  return simulateExtrinsic(argv.simulate!, originCall.tx, as, storage);
+}